@@ -0,0 +1,12 @@
+import { CSRF_FIELD } from "../utils/csrf";
+
+interface CsrfInputProps {
+  token: string;
+}
+
+/**
+ * Hidden form field with the CSRF token for the current browser session
+ */
+export default function CsrfInput({ token }: CsrfInputProps) {
+  return <input type="hidden" name={CSRF_FIELD} value={token} />;
+}
@@ -1,3 +1,4 @@
+import { availableParallelism } from "os";
 import { join } from "path";
 
 const DATA_DIR = process.env.DATA_DIR || "./data";
@@ -18,6 +19,30 @@ export const APP_USERNAME = process.env.APP_USERNAME || "admin";
 /** Password for accessing the admin dashboard */
 export const APP_PASSWORD = process.env.APP_PASSWORD;
 
+/** npub or hex pubkey of the server owner, who can always sign in to the admin dashboard */
+export const APP_OWNER = process.env.APP_OWNER;
+
 /** Override the default Blossom uploads folder in the blob directory */
 export const BLOSSOM_UPLOADS_FOLDER =
   process.env.BLOSSOM_UPLOADS_FOLDER || "blossom-uploads";
+
+/** Number of files hashed in parallel while scanning the blob directory */
+export const SCAN_CONCURRENCY =
+  parseInt(process.env.SCAN_CONCURRENCY ?? "") || availableParallelism();
+
+/** Where Blossom uploads are stored, "filesystem" (default) or "s3" */
+export const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "filesystem";
+
+/** Connection settings for the S3-compatible storage backend */
+export const S3_ENDPOINT = process.env.S3_ENDPOINT;
+export const S3_BUCKET = process.env.S3_BUCKET;
+export const S3_REGION = process.env.S3_REGION;
+export const S3_ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+export const S3_SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+
+/** Prefix for the object keys of blobs in the S3 bucket */
+export const S3_PREFIX = process.env.S3_PREFIX || "";
+
+/** Minutes between runs of the background jobs that expire blobs, purge the trash and verify files */
+export const RETENTION_INTERVAL =
+  parseInt(process.env.RETENTION_INTERVAL ?? "") || 60;
@@ -1,9 +1,9 @@
-import { APP_PASSWORD } from "./env";
 import adminRoutes from "./routes/admin/admin.tsx";
 import blossomRoutes from "./routes/blossom/index.ts";
 import fileBrowserRoutes from "./routes/browser/index.tsx";
 import appConfig from "./services/config.ts";
 import blobStorage from "./services/storage.ts";
+import { hasAdminLogin } from "./utils/auth.ts";
 
 // Initialize services
 console.log("Starting Blossom server...");
@@ -18,7 +18,11 @@ try {
 }
 
 // Start the storage service
-blobStorage.start();
+blobStorage
+  .start()
+  .catch((error) =>
+    console.error("Storage service stopped with an error:", error),
+  );
 
 const server = Bun.serve({
   port: process.env.PORT || 3000,
@@ -33,8 +37,11 @@ const server = Bun.serve({
 console.log(`Blossom server running on http://localhost:${server.port}`);
 console.log(`Serving blobs from: ${blobStorage.getBlobDir()}`);
 
-// Warn the user if no password is set for admin dashboard
-if (!APP_PASSWORD) console.error("No password set for admin dashboard!");
+// Warn the user if there is no way to sign in to the admin dashboard
+if (!hasAdminLogin())
+  console.error(
+    "No password, owner or admin set, the admin dashboard is locked until one is configured",
+  );
 
 // Graceful shutdown
 process.on("SIGINT", () => {
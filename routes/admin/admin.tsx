@@ -1,12 +1,28 @@
 import { nip19 } from "nostr-tools";
 import Document from "../../components/Document";
-import type { AppConfig } from "../../services/config";
-import appConfig from "../../services/config";
+import type {
+  AppConfig,
+  RetentionPolicy,
+  StorageQuota,
+  WhitelistRole,
+} from "../../services/config";
+import appConfig, { isHttpUrl, WHITELIST_ROLES } from "../../services/config";
+import blobReports, { type BlobReport } from "../../services/reports";
+import blobStorage, {
+  type ExpiredBlob,
+  type ScrubStatus,
+  type StorageUsage,
+  type TrashedBlob,
+} from "../../services/storage";
 import {
   AlertMessage,
   DangerZone,
   GeneralSettings,
+  IntegrityStatus,
   Navigation,
+  ReportsManagement,
+  RetentionSettings,
+  TrashManagement,
   WhitelistManagement,
 } from "./components";
 
@@ -42,13 +58,49 @@ function parsePublicKey(input: string): string {
   }
 }
 
+/**
+ * Parse storage quota limits from form fields, empty fields mean no limit
+ */
+function parseQuota(size: string | null, blobs: string | null): StorageQuota {
+  const sizeMB = parseInt(size ?? "");
+  const maxBlobs = parseInt(blobs ?? "");
+
+  return {
+    maxBytes: sizeMB > 0 ? sizeMB * 1024 * 1024 : undefined,
+    maxBlobs: maxBlobs > 0 ? maxBlobs : undefined,
+  };
+}
+
+/**
+ * Get who is deleting blobs from the dashboard, the admin's pubkey or "admin" for password sessions
+ */
+function getDeletedBy(req: Request): string {
+  return getAdminSession(req)?.pubkey ?? "admin";
+}
+
 interface AdminDashboardProps {
   config: AppConfig;
+  reports: BlobReport[];
+  usage: Record<string, StorageUsage>;
+  expired: ExpiredBlob[];
+  trash: TrashedBlob[];
+  scrub: ScrubStatus;
+  csrfToken: string;
   message?: string;
   error?: string;
 }
 
-function AdminDashboard({ config, message, error }: AdminDashboardProps) {
+function AdminDashboard({
+  config,
+  reports,
+  usage,
+  expired,
+  trash,
+  scrub,
+  csrfToken,
+  message,
+  error,
+}: AdminDashboardProps) {
   return (
     <div class="max-w-4xl mx-auto p-8">
       <div class="mb-8">
@@ -59,10 +111,34 @@ function AdminDashboard({ config, message, error }: AdminDashboardProps) {
       <AlertMessage message={message} error={error} />
 
       <div class="grid gap-8">
-        <GeneralSettings config={config} />
-        <WhitelistManagement whitelist={config.whitelist} />
-        <DangerZone />
-        <Navigation />
+        <GeneralSettings config={config} csrfToken={csrfToken} />
+        <WhitelistManagement
+          whitelist={config.whitelist}
+          usage={usage}
+          quotas={config.quotas}
+          defaultQuota={config.defaultQuota}
+          csrfToken={csrfToken}
+        />
+        <ReportsManagement
+          reports={reports}
+          blockedHashes={config.blockedHashes}
+          blockedPubkeys={config.blockedPubkeys}
+          csrfToken={csrfToken}
+        />
+        <RetentionSettings
+          policy={config.retention}
+          expired={expired}
+          csrfToken={csrfToken}
+        />
+        <TrashManagement trash={trash} csrfToken={csrfToken} />
+        <IntegrityStatus
+          settings={config.scrub}
+          verifyOnServe={config.verifyOnServe}
+          status={scrub}
+          csrfToken={csrfToken}
+        />
+        <DangerZone csrfToken={csrfToken} />
+        <Navigation csrfToken={csrfToken} />
       </div>
     </div>
   );
@@ -75,12 +151,25 @@ export async function adminDashboard(req: Request): Promise<Response> {
   const error = url.searchParams.get("error");
 
   const config = appConfig.getConfig();
+  const csrf = getCsrfToken(req);
+  const usage = Object.fromEntries(
+    config.whitelist.map(({ pubkey }) => [
+      pubkey,
+      blobStorage.getUsageForPubkey(pubkey),
+    ]),
+  );
 
   return new Response(
     await (
       <Document title="Admin Dashboard - Blob Box">
         <AdminDashboard
           config={config}
+          reports={blobReports.getOpenReports()}
+          usage={usage}
+          expired={blobStorage.findExpiredBlobs()}
+          trash={blobStorage.getTrashedBlobs()}
+          scrub={blobStorage.getScrubStatus()}
+          csrfToken={csrf.token}
           message={message || undefined}
           error={error || undefined}
         />
@@ -89,6 +178,7 @@ export async function adminDashboard(req: Request): Promise<Response> {
     {
       headers: {
         "Content-Type": "text/html; charset=utf-8",
+        ...(csrf.cookie ? { "Set-Cookie": csrf.cookie } : {}),
       },
     },
   );
@@ -101,12 +191,74 @@ export async function updateSettings(req: Request): Promise<Response> {
     const maxFileSizeMB =
       parseInt(formData.get("maxFileSize") as string) || 100;
     const allowAnonymous = formData.has("allowAnonymous");
+    const requireAuthExpiration = formData.has("requireAuthExpiration");
+    const requireAuthToList = formData.has("requireAuthToList");
+    const requireAuthToGet = formData.has("requireAuthToGet");
+    const trashPurgeDays = parseInt(formData.get("trashPurgeDelay") as string);
+    const authMaxAge = parseInt(formData.get("authMaxAge") as string) || 3600;
+    const authMaxFutureSkew = parseInt(
+      formData.get("authMaxFutureSkew") as string,
+    );
+    const allowedMimeTypes = (
+      (formData.get("allowedMimeTypes") as string) || ""
+    )
+      .split(",")
+      .map((type) => type.trim())
+      .filter(Boolean);
+    const serverDomains = ((formData.get("serverDomains") as string) || "")
+      .split(",")
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean);
+    const ignorePatterns = ((formData.get("ignorePatterns") as string) || "")
+      .split("\n")
+      .map((pattern) => pattern.trim())
+      .filter(Boolean);
+    const mediaFormat =
+      formData.get("mediaFormat") === "jpeg" ? "jpeg" : "webp";
+    const mediaMaxDimension =
+      parseInt(formData.get("mediaMaxDimension") as string) || 2048;
+    const publicUrl =
+      ((formData.get("publicUrl") as string) || "")
+        .trim()
+        .replace(/\/+$/, "") || undefined;
+
+    const defaultQuota = parseQuota(
+      formData.get("defaultQuotaSize") as string,
+      formData.get("defaultQuotaBlobs") as string,
+    );
+
+    if (publicUrl && !isHttpUrl(publicUrl))
+      throw new Error("Public URL must be a valid http(s) URL");
+
+    const ignorePatternsChanged =
+      ignorePatterns.join("\n") !== appConfig.get("ignorePatterns").join("\n");
 
     await appConfig.updateConfig({
       maxFileSize: maxFileSizeMB * 1024 * 1024, // Convert MB to bytes
       allowAnonymous,
+      allowedMimeTypes,
+      mediaFormat,
+      mediaMaxDimension,
+      publicUrl,
+      serverDomains,
+      ignorePatterns,
+      defaultQuota,
+      authMaxAge,
+      authMaxFutureSkew: isNaN(authMaxFutureSkew) ? 300 : authMaxFutureSkew,
+      requireAuthExpiration,
+      requireAuthToList,
+      requireAuthToGet,
+      trashPurgeDelay: isNaN(trashPurgeDays)
+        ? 30 * 24 * 60 * 60
+        : trashPurgeDays * 24 * 60 * 60,
     });
 
+    // Rescan in the background so excluded files leave the index
+    if (ignorePatternsChanged)
+      blobStorage
+        .reloadIgnoreRules()
+        .catch((err) => console.error("Failed to apply ignore patterns:", err));
+
     return new Response(null, {
       status: 302,
       headers: {
@@ -129,13 +281,16 @@ export async function addToWhitelist(req: Request): Promise<Response> {
   try {
     const formData = await req.formData();
     const pubkeyInput = formData.get("pubkey") as string;
+    const role = formData.get("role") as WhitelistRole;
+    const label = ((formData.get("label") as string) || "").trim();
 
     if (!pubkeyInput) throw new Error("Public key is required");
+    if (!WHITELIST_ROLES.includes(role)) throw new Error("Invalid role");
 
     // Parse the public key from various formats
     const hexPubkey = parsePublicKey(pubkeyInput);
 
-    await appConfig.addToWhitelist(hexPubkey);
+    await appConfig.addToWhitelist(hexPubkey, role, label || undefined);
 
     return new Response(null, {
       status: 302,
@@ -184,6 +339,147 @@ export async function removeFromWhitelist(req: Request): Promise<Response> {
   }
 }
 
+export async function updateQuota(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const pubkey = formData.get("pubkey") as string;
+
+    if (!pubkey) throw new Error("Public key is required");
+
+    const quota = parseQuota(
+      formData.get("quotaSize") as string,
+      formData.get("quotaBlobs") as string,
+    );
+    const useDefault = !quota.maxBytes && !quota.maxBlobs;
+
+    await appConfig.setQuota(pubkey, useDefault ? undefined : quota);
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: useDefault
+          ? "/admin?message=Public key now uses the default quota"
+          : "/admin?message=Quota updated",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function updateRetention(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const day = 24 * 60 * 60;
+    const maxAgeDays = parseInt(formData.get("maxAge") as string);
+    const anonymousDays = parseInt(formData.get("anonymousMaxAge") as string);
+    const maxBytesMB = parseInt(formData.get("maxBytes") as string);
+    const keepLast = parseInt(formData.get("keepLast") as string);
+
+    // Empty fields mean no limit
+    const retention: RetentionPolicy = {
+      enabled: formData.has("enabled"),
+      maxAge: maxAgeDays > 0 ? maxAgeDays * day : undefined,
+      anonymousMaxAge: anonymousDays > 0 ? anonymousDays * day : undefined,
+      maxBytes: maxBytesMB > 0 ? maxBytesMB * 1024 * 1024 : undefined,
+      keepLast: keepLast > 0 ? keepLast : undefined,
+    };
+
+    await appConfig.updateConfig({ retention });
+    const expired = await blobStorage.applyRetention();
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: retention.enabled
+          ? `/admin?message=${encodeURIComponent(`Retention policy updated, ${expired.length} expired blobs deleted`)}`
+          : "/admin?message=Retention policy updated",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function updateScrub(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const intervalDays = parseInt(formData.get("interval") as string) || 30;
+
+    await appConfig.updateConfig({
+      scrub: {
+        enabled: formData.has("enabled"),
+        interval: intervalDays * 24 * 60 * 60,
+        quarantine: formData.has("quarantine"),
+      },
+      verifyOnServe: formData.has("verifyOnServe"),
+    });
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Integrity settings updated",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function dismissCorruptFile(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const path = formData.get("path") as string;
+
+    if (!path) throw new Error("File path is required");
+    if (!blobStorage.dismissCorruptFile(path))
+      throw new Error("File is not flagged as corrupt");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Corrupt file dismissed",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export function scrubStatus(): Response {
+  return new Response(JSON.stringify(blobStorage.getScrubStatus()), {
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
 export async function resetConfig(req: Request): Promise<Response> {
   try {
     await appConfig.resetToDefaults();
@@ -206,24 +502,227 @@ export async function resetConfig(req: Request): Promise<Response> {
   }
 }
 
-import { withSimpleAuth } from "../../utils/auth";
+export async function dismissReport(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const hash = formData.get("hash") as string;
+
+    if (!hash) throw new Error("Blob hash is required");
+
+    blobReports.closeReports(hash, "dismissed");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Report dismissed",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function deleteReportedBlob(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const hash = formData.get("hash") as string;
+
+    if (!hash) throw new Error("Blob hash is required");
+
+    const removed = await blobStorage.trashBlobByHash(hash, getDeletedBy(req));
+    blobReports.closeReports(hash, "resolved");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?message=${encodeURIComponent(`Moved ${removed} copies of the reported blob to the trash`)}`,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function blockReportedBlob(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const hash = formData.get("hash") as string;
+
+    if (!hash) throw new Error("Blob hash is required");
+
+    // Look up the uploaders before the files are removed from the index
+    const uploaders = blobStorage.getUploadersForHash(hash);
+    await appConfig.addToBlocklist([hash], uploaders);
+    await blobStorage.trashBlobByHash(hash, getDeletedBy(req));
+    blobReports.closeReports(hash, "resolved");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?message=${encodeURIComponent(`Deleted and blocked the reported blob and ${uploaders.length} uploaders`)}`,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function restoreTrashedBlob(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const hash = formData.get("hash") as string;
+
+    if (!hash) throw new Error("Blob hash is required");
+    if (!(await blobStorage.restoreFromTrash(hash)))
+      throw new Error("Blob is not in the trash");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Blob restored from the trash",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function purgeTrashedBlob(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const hash = formData.get("hash") as string;
+
+    if (!hash) throw new Error("Blob hash is required");
+    if (!(await blobStorage.purgeFromTrash(hash)))
+      throw new Error("Blob is not in the trash");
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Blob permanently deleted",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+export async function unblock(req: Request): Promise<Response> {
+  try {
+    const formData = await req.formData();
+    const value = formData.get("value") as string;
+
+    if (!value) throw new Error("Blocked value is required");
+
+    await appConfig.removeFromBlocklist(value);
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: "/admin?message=Removed from blocklist",
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    return new Response(null, {
+      status: 302,
+      headers: {
+        Location: `/admin?error=${encodeURIComponent(errorMessage)}`,
+      },
+    });
+  }
+}
+
+import { getAdminSession, withAdminAuth } from "../../utils/auth";
+import { getCsrfToken, withCsrf } from "../../utils/csrf";
+import { loginRoutes } from "./login";
 
 // Route configuration with CORS applied
 const routes = {
+  ...loginRoutes,
   "/admin": {
-    GET: withSimpleAuth()(adminDashboard),
+    GET: withAdminAuth()(adminDashboard),
   },
   "/admin/update-settings": {
-    POST: withSimpleAuth()(updateSettings),
+    POST: withAdminAuth()(withCsrf()(updateSettings)),
   },
   "/admin/add-whitelist": {
-    POST: withSimpleAuth()(addToWhitelist),
+    POST: withAdminAuth()(withCsrf()(addToWhitelist)),
   },
   "/admin/remove-whitelist": {
-    POST: withSimpleAuth()(removeFromWhitelist),
+    POST: withAdminAuth()(withCsrf()(removeFromWhitelist)),
+  },
+  "/admin/update-quota": {
+    POST: withAdminAuth()(withCsrf()(updateQuota)),
+  },
+  "/admin/update-retention": {
+    POST: withAdminAuth()(withCsrf()(updateRetention)),
+  },
+  "/admin/update-scrub": {
+    POST: withAdminAuth()(withCsrf()(updateScrub)),
+  },
+  "/admin/dismiss-corrupt-file": {
+    POST: withAdminAuth()(withCsrf()(dismissCorruptFile)),
+  },
+  "/admin/scrub-status": {
+    GET: withAdminAuth()(scrubStatus),
   },
   "/admin/reset-config": {
-    POST: withSimpleAuth()(resetConfig),
+    POST: withAdminAuth()(withCsrf()(resetConfig)),
+  },
+  "/admin/dismiss-report": {
+    POST: withAdminAuth()(withCsrf()(dismissReport)),
+  },
+  "/admin/delete-reported-blob": {
+    POST: withAdminAuth()(withCsrf()(deleteReportedBlob)),
+  },
+  "/admin/block-reported-blob": {
+    POST: withAdminAuth()(withCsrf()(blockReportedBlob)),
+  },
+  "/admin/restore-trashed-blob": {
+    POST: withAdminAuth()(withCsrf()(restoreTrashedBlob)),
+  },
+  "/admin/purge-trashed-blob": {
+    POST: withAdminAuth()(withCsrf()(purgeTrashedBlob)),
+  },
+  "/admin/unblock": {
+    POST: withAdminAuth()(withCsrf()(unblock)),
   },
 };
 
@@ -1,19 +1,56 @@
-export function AddWhitelistForm() {
+import CsrfInput from "../../../components/CsrfInput";
+import type { WhitelistRole } from "../../../services/config";
+
+/** Display names for whitelist roles */
+export const ROLE_NAMES: Record<WhitelistRole, string> = {
+  list: "List only",
+  upload: "Upload",
+  delete: "Upload & Delete",
+  admin: "Admin",
+};
+
+interface AddWhitelistFormProps {
+  csrfToken: string;
+}
+
+export function AddWhitelistForm({ csrfToken }: AddWhitelistFormProps) {
   return (
     <div class="mb-6">
       <h3 class="text-lg font-semibold mb-3">Add Public Key</h3>
-      <form method="POST" action="/admin/add-whitelist" class="flex gap-2">
-        <input
-          type="text"
-          name="pubkey"
-          placeholder="Enter public key (hex, npub, or nprofile)"
-          class="input input-bordered flex-1"
-          title="Public key can be 64-character hex, npub, or nprofile format"
-          required
-        />
-        <button type="submit" class="btn btn-primary">
-          Add
-        </button>
+      <form method="POST" action="/admin/add-whitelist" class="space-y-2">
+        <CsrfInput token={csrfToken} />
+        <div class="flex gap-2">
+          <input
+            type="text"
+            name="pubkey"
+            placeholder="Enter public key (hex, npub, or nprofile)"
+            class="input input-bordered flex-1"
+            title="Public key can be 64-character hex, npub, or nprofile format"
+            required
+          />
+          <button type="submit" class="btn btn-primary">
+            Add
+          </button>
+        </div>
+        <div class="flex gap-2">
+          <input
+            type="text"
+            name="label"
+            placeholder="Label (optional)"
+            class="input input-bordered flex-1"
+          />
+          <select name="role" class="select select-bordered">
+            {Object.entries(ROLE_NAMES).map(([role, name]) => (
+              <option value={role} selected={role === "delete"} safe>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p class="text-sm text-base-content/70">
+          Adding a public key that is already whitelisted updates its role and
+          label
+        </p>
       </form>
     </div>
   );
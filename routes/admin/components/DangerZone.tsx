@@ -1,4 +1,10 @@
-export function DangerZone() {
+import CsrfInput from "../../../components/CsrfInput";
+
+interface DangerZoneProps {
+  csrfToken: string;
+}
+
+export function DangerZone({ csrfToken }: DangerZoneProps) {
   return (
     <div class="card bg-base-100 shadow-md border-error">
       <div class="card-body">
@@ -12,6 +18,7 @@ export function DangerZone() {
               whitelist.
             </p>
             <form method="POST" action="/admin/reset-config">
+              <CsrfInput token={csrfToken} />
               <button
                 type="submit"
                 class="btn btn-error"
@@ -1,16 +1,19 @@
+import CsrfInput from "../../../components/CsrfInput";
 import type { AppConfig } from "../../../services/config";
 
 interface GeneralSettingsProps {
   config: AppConfig;
+  csrfToken: string;
 }
 
-export function GeneralSettings({ config }: GeneralSettingsProps) {
+export function GeneralSettings({ config, csrfToken }: GeneralSettingsProps) {
   return (
     <div class="card bg-base-100 shadow-md">
       <div class="card-body">
         <h2 class="card-title text-2xl mb-4">General Settings</h2>
 
         <form method="POST" action="/admin/update-settings" class="space-y-4">
+          <CsrfInput token={csrfToken} />
           <div class="form-control">
             <label class="label">
               <span class="label-text font-semibold">Max File Size (MB)</span>
@@ -33,6 +36,305 @@ export function GeneralSettings({ config }: GeneralSettingsProps) {
             </label>
           </div>
 
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">Public URL</span>
+            </label>
+            <input
+              type="url"
+              name="publicUrl"
+              value={config.publicUrl || ""}
+              class="input input-bordered w-full"
+              placeholder="https://blossom.example.com"
+            />
+            <label class="label">
+              <span class="label-text-alt">
+                Base URL used for blob links. Leave empty to use the address
+                clients connect with
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">Server Domains</span>
+            </label>
+            <input
+              type="text"
+              name="serverDomains"
+              value={config.serverDomains.join(", ")}
+              class="input input-bordered w-full"
+              placeholder="blossom.example.com, umbrel.local"
+            />
+            <label class="label">
+              <span class="label-text-alt">
+                Comma separated list of other domains this server is reachable
+                at. Authorization events with server tags must name one of
+                these, the public URL or the onion address
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">Allowed MIME Types</span>
+            </label>
+            <input
+              type="text"
+              name="allowedMimeTypes"
+              value={(config.allowedMimeTypes || []).join(", ")}
+              class="input input-bordered w-full"
+              placeholder="image/*, video/mp4"
+            />
+            <label class="label">
+              <span class="label-text-alt">
+                Comma separated list of MIME types allowed for uploads. Leave
+                empty to allow all types
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">Ignore Patterns</span>
+            </label>
+            <textarea
+              name="ignorePatterns"
+              rows="4"
+              class="textarea textarea-bordered w-full font-mono"
+              placeholder={".DS_Store\n*.part\n.*/"}
+              safe
+            >
+              {config.ignorePatterns.join("\n")}
+            </textarea>
+            <label class="label">
+              <span class="label-text-alt">
+                Gitignore-style patterns, one per line, for files that aren't
+                indexed or served. Patterns in the .blobignore file of the blob
+                directory apply as well. The defaults skip macOS metadata,
+                partial downloads, Syncthing's temporary files and hidden
+                folders
+              </span>
+            </label>
+          </div>
+
+          <div class="grid gap-4 md:grid-cols-2">
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">Media Format</span>
+              </label>
+              <select name="mediaFormat" class="select select-bordered w-full">
+                <option value="webp" selected={config.mediaFormat !== "jpeg"}>
+                  WebP
+                </option>
+                <option value="jpeg" selected={config.mediaFormat === "jpeg"}>
+                  JPEG
+                </option>
+              </select>
+              <label class="label">
+                <span class="label-text-alt">
+                  Format images uploaded to /media are re-encoded to
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Max Media Dimension (px)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="mediaMaxDimension"
+                value={(config.mediaMaxDimension || 2048).toString()}
+                min="64"
+                max="16384"
+                class="input input-bordered w-full"
+                placeholder="2048"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Larger images uploaded to /media are scaled down
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div class="grid gap-4 md:grid-cols-2">
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Default Storage Quota (MB)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="defaultQuotaSize"
+                value={
+                  config.defaultQuota.maxBytes
+                    ? Math.round(
+                        config.defaultQuota.maxBytes / (1024 * 1024),
+                      ).toString()
+                    : ""
+                }
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="Unlimited"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Total storage each public key can use
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">Default Blob Quota</span>
+              </label>
+              <input
+                type="number"
+                name="defaultQuotaBlobs"
+                value={config.defaultQuota.maxBlobs?.toString() ?? ""}
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="Unlimited"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Number of blobs each public key can store
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div class="grid gap-4 md:grid-cols-2">
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Max Authorization Age (seconds)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="authMaxAge"
+                value={(config.authMaxAge || 3600).toString()}
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="3600"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Authorization events created longer ago are rejected
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Max Clock Skew (seconds)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="authMaxFutureSkew"
+                value={(config.authMaxFutureSkew ?? 300).toString()}
+                min="0"
+                class="input input-bordered w-full"
+                placeholder="300"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  How far in the future authorization events can be created
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">
+                Trash Purge Delay (days)
+              </span>
+            </label>
+            <input
+              type="number"
+              name="trashPurgeDelay"
+              value={Math.round(
+                (config.trashPurgeDelay ?? 0) / (24 * 60 * 60),
+              ).toString()}
+              min="0"
+              class="input input-bordered w-full"
+              placeholder="30"
+            />
+            <label class="label">
+              <span class="label-text-alt">
+                How long deleted blobs can be restored before they are
+                permanently deleted
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="requireAuthExpiration"
+                class="checkbox checkbox-primary"
+                checked={config.requireAuthExpiration}
+              />
+              <span class="label-text font-semibold">
+                Require Authorization Expiration
+              </span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                Reject authorization events without an expiration tag
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="requireAuthToList"
+                class="checkbox checkbox-primary"
+                checked={config.requireAuthToList}
+              />
+              <span class="label-text font-semibold">
+                Require Authorization to List
+              </span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                Only the pubkey itself or an admin can list its blobs
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="requireAuthToGet"
+                class="checkbox checkbox-primary"
+                checked={config.requireAuthToGet}
+              />
+              <span class="label-text font-semibold">
+                Require Authorization to Get
+              </span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                Blobs can only be retrieved with a get authorization event,
+                plain links to blobs stop working
+              </span>
+            </label>
+          </div>
+
           <div class="form-control">
             <label class="cursor-pointer label justify-start gap-4">
               <input
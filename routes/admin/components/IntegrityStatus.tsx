@@ -0,0 +1,193 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { ScrubSettings } from "../../../services/config";
+import type { CorruptFile, ScrubStatus } from "../../../services/storage";
+
+interface IntegrityStatusProps {
+  settings: ScrubSettings;
+  verifyOnServe?: boolean;
+  status: ScrubStatus;
+  csrfToken: string;
+}
+
+interface CorruptFileItemProps {
+  file: CorruptFile;
+  csrfToken: string;
+}
+
+const DAY = 24 * 60 * 60;
+
+function CorruptFileItem({ file, csrfToken }: CorruptFileItemProps) {
+  return (
+    <div class="p-3 bg-base-200 rounded-lg space-y-2">
+      <div class="flex items-center gap-2">
+        <code class="font-mono text-sm break-all flex-1" safe>
+          {file.path}
+        </code>
+        {file.quarantined ? (
+          <span class="badge badge-warning">Quarantined</span>
+        ) : null}
+      </div>
+      <div class="text-xs text-base-content/70 space-y-1">
+        <div>
+          Expected{" "}
+          <code class="font-mono break-all" safe>
+            {file.expectedHash}
+          </code>
+        </div>
+        <div>
+          Found{" "}
+          <code class="font-mono break-all" safe>
+            {file.actualHash}
+          </code>{" "}
+          on{" "}
+          <span safe>{new Date(file.detectedAt * 1000).toLocaleString()}</span>
+        </div>
+      </div>
+      <div class="flex justify-end">
+        <form method="POST" action="/admin/dismiss-corrupt-file">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="path" value={file.path} />
+          <button type="submit" class="btn btn-sm btn-ghost">
+            Dismiss
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export function IntegrityStatus({
+  settings,
+  verifyOnServe,
+  status,
+  csrfToken,
+}: IntegrityStatusProps) {
+  const lastRun = status.lastRun
+    ? new Date(status.lastRun * 1000).toLocaleString()
+    : "Never";
+
+  return (
+    <div class="card bg-base-100 shadow-md">
+      <div class="card-body">
+        <h2 class="card-title text-2xl mb-4">Integrity</h2>
+
+        <form method="POST" action="/admin/update-scrub" class="space-y-4">
+          <CsrfInput token={csrfToken} />
+          <div class="form-control">
+            <label class="label">
+              <span class="label-text font-semibold">
+                Verification Interval (days)
+              </span>
+            </label>
+            <input
+              type="number"
+              name="interval"
+              value={Math.round(settings.interval / DAY).toString()}
+              min="1"
+              class="input input-bordered w-full"
+              placeholder="30"
+            />
+            <label class="label">
+              <span class="label-text-alt">
+                Every file is re-hashed once in this many days
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="enabled"
+                class="checkbox checkbox-primary"
+                checked={settings.enabled}
+              />
+              <span class="label-text font-semibold">Verify Files</span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="quarantine"
+                class="checkbox checkbox-primary"
+                checked={settings.quarantine}
+              />
+              <span class="label-text font-semibold">
+                Quarantine Corrupt Files
+              </span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                Move corrupt files to the .quarantine folder instead of indexing
+                them with their new hash
+              </span>
+            </label>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="verifyOnServe"
+                class="checkbox checkbox-primary"
+                checked={verifyOnServe}
+              />
+              <span class="label-text font-semibold">
+                Verify Blobs When Served
+              </span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                Hash blobs while they are downloaded, once per change of the
+                file. Useful for removable or network drives
+              </span>
+            </label>
+          </div>
+
+          <div class="card-actions justify-end">
+            <button type="submit" class="btn btn-primary">
+              Save Integrity Settings
+            </button>
+          </div>
+        </form>
+
+        <div class="stats stats-vertical md:stats-horizontal mt-6">
+          <div class="stat">
+            <div class="stat-title">Last Scrub</div>
+            <div class="stat-value text-lg" safe>
+              {lastRun}
+            </div>
+            <div class="stat-desc">{status.checked} files checked</div>
+          </div>
+          <div class="stat">
+            <div class="stat-title">Verified</div>
+            <div class="stat-value text-lg">
+              {status.verified} / {status.total}
+            </div>
+            <div class="stat-desc">Files verified within the interval</div>
+          </div>
+        </div>
+
+        <div class="mt-6">
+          <h3 class="text-lg font-semibold mb-3">
+            Corrupt Files ({status.corruptFiles.length})
+          </h3>
+
+          {status.corruptFiles.length === 0 ? (
+            <div class="text-center py-8 text-base-content/60">
+              <p class="text-lg">No corrupt files found</p>
+            </div>
+          ) : (
+            <div class="space-y-2">
+              {status.corruptFiles.map((file) => (
+                <CorruptFileItem file={file} csrfToken={csrfToken} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,21 @@
-export function Navigation() {
+import CsrfInput from "../../../components/CsrfInput";
+
+interface NavigationProps {
+  csrfToken: string;
+}
+
+export function Navigation({ csrfToken }: NavigationProps) {
   return (
-    <div class="text-center">
+    <div class="flex justify-center gap-4">
       <a href="/" class="btn btn-outline">
         ← Back to File Browser
       </a>
+      <form method="POST" action="/admin/logout">
+        <CsrfInput token={csrfToken} />
+        <button type="submit" class="btn btn-ghost">
+          Sign Out
+        </button>
+      </form>
     </div>
   );
 }
@@ -0,0 +1,73 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { BlobReport } from "../../../services/reports";
+
+interface ReportItemProps {
+  report: BlobReport;
+  csrfToken: string;
+}
+
+export function ReportItem({ report, csrfToken }: ReportItemProps) {
+  return (
+    <div class="p-3 bg-base-200 rounded-lg space-y-2">
+      <div class="flex items-center gap-2">
+        <a
+          href={`/${report.hash}`}
+          target="_blank"
+          class="link link-primary font-mono text-sm break-all flex-1"
+          safe
+        >
+          {report.hash}
+        </a>
+        {report.type ? (
+          <span class="badge badge-warning" safe>
+            {report.type}
+          </span>
+        ) : null}
+      </div>
+      {report.content ? (
+        <p class="text-sm" safe>
+          {report.content}
+        </p>
+      ) : null}
+      <div class="text-xs text-base-content/70">
+        Reported by{" "}
+        <code class="font-mono break-all" safe>
+          {report.reporter}
+        </code>{" "}
+        on{" "}
+        <span safe>{new Date(report.createdAt * 1000).toLocaleString()}</span>
+      </div>
+      <div class="flex flex-wrap gap-2 justify-end">
+        <form method="POST" action="/admin/dismiss-report">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="hash" value={report.hash} />
+          <button type="submit" class="btn btn-sm btn-ghost">
+            Dismiss
+          </button>
+        </form>
+        <form method="POST" action="/admin/delete-reported-blob">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="hash" value={report.hash} />
+          <button
+            type="submit"
+            class="btn btn-sm btn-warning"
+            onclick="return confirm('Are you sure you want to delete this blob?')"
+          >
+            Delete Blob
+          </button>
+        </form>
+        <form method="POST" action="/admin/block-reported-blob">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="hash" value={report.hash} />
+          <button
+            type="submit"
+            class="btn btn-sm btn-error"
+            onclick="return confirm('Are you sure you want to delete this blob and block it and its uploader?')"
+          >
+            Delete &amp; Block
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
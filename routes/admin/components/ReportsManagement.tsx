@@ -0,0 +1,100 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { BlobReport } from "../../../services/reports";
+import { ReportItem } from "./ReportItem";
+
+interface ReportsManagementProps {
+  reports: BlobReport[];
+  blockedHashes: string[];
+  blockedPubkeys: string[];
+  csrfToken: string;
+}
+
+interface BlocklistItemProps {
+  value: string;
+  label: string;
+  csrfToken: string;
+}
+
+function BlocklistItem({ value, label, csrfToken }: BlocklistItemProps) {
+  return (
+    <div class="flex items-center gap-4 p-3 bg-base-200 rounded-lg">
+      <span class="badge badge-ghost" safe>
+        {label}
+      </span>
+      <code class="flex-1 text-sm font-mono break-all" safe>
+        {value}
+      </code>
+      <form method="POST" action="/admin/unblock">
+        <CsrfInput token={csrfToken} />
+        <input type="hidden" name="value" value={value} />
+        <button type="submit" class="btn btn-sm btn-ghost">
+          Unblock
+        </button>
+      </form>
+    </div>
+  );
+}
+
+export function ReportsManagement({
+  reports,
+  blockedHashes,
+  blockedPubkeys,
+  csrfToken,
+}: ReportsManagementProps) {
+  const blockedCount = blockedHashes.length + blockedPubkeys.length;
+
+  return (
+    <div class="card bg-base-100 shadow-md">
+      <div class="card-body">
+        <h2 class="card-title text-2xl mb-4">Reports</h2>
+
+        <div class="mb-6">
+          <h3 class="text-lg font-semibold mb-3">
+            Open Reports ({reports.length})
+          </h3>
+
+          {reports.length === 0 ? (
+            <div class="text-center py-8 text-base-content/60">
+              <p class="text-lg">No open reports</p>
+            </div>
+          ) : (
+            <div class="space-y-2">
+              {reports.map((report) => (
+                <ReportItem report={report} csrfToken={csrfToken} />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 class="text-lg font-semibold mb-3">
+            Blocklist ({blockedCount} entries)
+          </h3>
+
+          {blockedCount === 0 ? (
+            <div class="text-center py-8 text-base-content/60">
+              <p class="text-lg">Nothing is blocked</p>
+            </div>
+          ) : (
+            <div class="space-y-2">
+              {blockedHashes.map((hash) => (
+                <BlocklistItem
+                  value={hash}
+                  label="Blob"
+                  csrfToken={csrfToken}
+                />
+              ))}
+              {blockedPubkeys.map((pubkey) => (
+                <BlocklistItem
+                  value={pubkey}
+                  label="Pubkey"
+                  csrfToken={csrfToken}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
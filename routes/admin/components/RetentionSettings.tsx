@@ -0,0 +1,217 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { RetentionPolicy } from "../../../services/config";
+import type { ExpiredBlob, RetentionReason } from "../../../services/storage";
+
+interface RetentionSettingsProps {
+  policy: RetentionPolicy;
+  /** Blobs the current policy expires */
+  expired: ExpiredBlob[];
+  csrfToken: string;
+}
+
+const DAY = 24 * 60 * 60;
+
+/** Maximum number of expired blobs listed in the dry-run report */
+const REPORT_LIMIT = 100;
+
+const REASON_NAMES: Record<RetentionReason, string> = {
+  maxAge: "Max age",
+  anonymousMaxAge: "Anonymous TTL",
+  keepLast: "Keep last",
+  maxBytes: "Max size",
+};
+
+function formatFileSize(bytes: number): string {
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  if (bytes === 0) return "0 B";
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
+}
+
+function ExpiredBlobItem({ blob }: { blob: ExpiredBlob }) {
+  return (
+    <div class="p-3 bg-base-200 rounded-lg space-y-1">
+      <div class="flex items-center gap-2">
+        <a
+          href={`/${blob.hash}`}
+          target="_blank"
+          class="link link-primary font-mono text-sm break-all flex-1"
+          safe
+        >
+          {blob.hash}
+        </a>
+        <span class="badge badge-outline" safe>
+          {REASON_NAMES[blob.reason]}
+        </span>
+      </div>
+      <div class="text-xs text-base-content/70">
+        <span safe>{formatFileSize(blob.size)}</span> uploaded by{" "}
+        <code class="font-mono break-all" safe>
+          {blob.pubkey}
+        </code>{" "}
+        on <span safe>{new Date(blob.uploaded * 1000).toLocaleString()}</span>
+      </div>
+    </div>
+  );
+}
+
+export function RetentionSettings({
+  policy,
+  expired,
+  csrfToken,
+}: RetentionSettingsProps) {
+  const expiredBytes = expired.reduce((total, blob) => total + blob.size, 0);
+
+  return (
+    <div class="card bg-base-100 shadow-md">
+      <div class="card-body">
+        <h2 class="card-title text-2xl mb-4">Retention</h2>
+
+        <form method="POST" action="/admin/update-retention" class="space-y-4">
+          <CsrfInput token={csrfToken} />
+          <div class="grid gap-4 md:grid-cols-2">
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">Max Age (days)</span>
+              </label>
+              <input
+                type="number"
+                name="maxAge"
+                value={
+                  policy.maxAge
+                    ? Math.round(policy.maxAge / DAY).toString()
+                    : ""
+                }
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="Forever"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Blobs uploaded longer ago expire
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Anonymous Upload TTL (days)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="anonymousMaxAge"
+                value={
+                  policy.anonymousMaxAge
+                    ? Math.round(policy.anonymousMaxAge / DAY).toString()
+                    : ""
+                }
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="Forever"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Blobs of pubkeys that aren't whitelisted expire after this
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">
+                  Max Size per Pubkey (MB)
+                </span>
+              </label>
+              <input
+                type="number"
+                name="maxBytes"
+                value={
+                  policy.maxBytes
+                    ? Math.round(policy.maxBytes / (1024 * 1024)).toString()
+                    : ""
+                }
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="Unlimited"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  The oldest blobs expire once a pubkey stores more
+                </span>
+              </label>
+            </div>
+
+            <div class="form-control">
+              <label class="label">
+                <span class="label-text font-semibold">Keep Last</span>
+              </label>
+              <input
+                type="number"
+                name="keepLast"
+                value={policy.keepLast?.toString() ?? ""}
+                min="1"
+                class="input input-bordered w-full"
+                placeholder="All"
+              />
+              <label class="label">
+                <span class="label-text-alt">
+                  Number of most recent blobs kept for each pubkey
+                </span>
+              </label>
+            </div>
+          </div>
+
+          <div class="form-control">
+            <label class="cursor-pointer label justify-start gap-4">
+              <input
+                type="checkbox"
+                name="enabled"
+                class="checkbox checkbox-primary"
+                checked={policy.enabled}
+              />
+              <span class="label-text font-semibold">Delete Expired Blobs</span>
+            </label>
+            <label class="label">
+              <span class="label-text-alt">
+                When disabled, the blobs that would be deleted are only listed
+                below
+              </span>
+            </label>
+          </div>
+
+          <div class="card-actions justify-end">
+            <button type="submit" class="btn btn-primary">
+              Save Retention Policy
+            </button>
+          </div>
+        </form>
+
+        <div class="mt-6">
+          <h3 class="text-lg font-semibold mb-3">
+            {policy.enabled ? "Expired Blobs" : "Dry Run"} ({expired.length}{" "}
+            blobs, <span safe>{formatFileSize(expiredBytes)}</span>)
+          </h3>
+
+          {expired.length === 0 ? (
+            <div class="text-center py-8 text-base-content/60">
+              <p class="text-lg">No blobs would be deleted</p>
+            </div>
+          ) : (
+            <div class="space-y-2">
+              {expired.slice(0, REPORT_LIMIT).map((blob) => (
+                <ExpiredBlobItem blob={blob} />
+              ))}
+              {expired.length > REPORT_LIMIT ? (
+                <p class="text-sm text-base-content/70">
+                  And {expired.length - REPORT_LIMIT} more
+                </p>
+              ) : null}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
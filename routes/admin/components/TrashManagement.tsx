@@ -0,0 +1,91 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { TrashedBlob } from "../../../services/storage";
+
+interface TrashManagementProps {
+  trash: TrashedBlob[];
+  csrfToken: string;
+}
+
+interface TrashItemProps {
+  blob: TrashedBlob;
+  csrfToken: string;
+}
+
+function formatFileSize(bytes: number): string {
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  if (bytes === 0) return "0 B";
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
+}
+
+function TrashItem({ blob, csrfToken }: TrashItemProps) {
+  return (
+    <div class="p-3 bg-base-200 rounded-lg space-y-2">
+      <div class="flex items-center gap-2">
+        <code class="font-mono text-sm break-all flex-1" safe>
+          {blob.hash}
+        </code>
+        <span class="badge badge-ghost" safe>
+          {formatFileSize(blob.size)}
+        </span>
+      </div>
+      {blob.paths.map((path) => (
+        <div class="text-sm font-mono break-all" safe>
+          {path}
+        </div>
+      ))}
+      <div class="text-xs text-base-content/70">
+        Deleted by{" "}
+        <code class="font-mono break-all" safe>
+          {blob.deletedBy}
+        </code>{" "}
+        on <span safe>{new Date(blob.deletedAt * 1000).toLocaleString()}</span>
+        {blob.owners.length > 0 ? (
+          <span>, owned by {blob.owners.length} pubkeys</span>
+        ) : null}
+      </div>
+      <div class="flex flex-wrap gap-2 justify-end">
+        <form method="POST" action="/admin/restore-trashed-blob">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="hash" value={blob.hash} />
+          <button type="submit" class="btn btn-sm btn-primary">
+            Restore
+          </button>
+        </form>
+        <form method="POST" action="/admin/purge-trashed-blob">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="hash" value={blob.hash} />
+          <button
+            type="submit"
+            class="btn btn-sm btn-error"
+            onclick="return confirm('Are you sure you want to permanently delete this blob? This cannot be undone.')"
+          >
+            Delete Permanently
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export function TrashManagement({ trash, csrfToken }: TrashManagementProps) {
+  return (
+    <div class="card bg-base-100 shadow-md">
+      <div class="card-body">
+        <h2 class="card-title text-2xl mb-4">Trash ({trash.length})</h2>
+
+        {trash.length === 0 ? (
+          <div class="text-center py-8 text-base-content/60">
+            <p class="text-lg">The trash is empty</p>
+          </div>
+        ) : (
+          <div class="space-y-2">
+            {trash.map((blob) => (
+              <TrashItem blob={blob} csrfToken={csrfToken} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
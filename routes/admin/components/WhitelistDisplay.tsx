@@ -1,10 +1,22 @@
+import type { StorageQuota, WhitelistEntry } from "../../../services/config";
+import type { StorageUsage } from "../../../services/storage";
 import { WhitelistItem } from "./WhitelistItem";
 
 interface WhitelistDisplayProps {
-  whitelist: string[];
+  whitelist: WhitelistEntry[];
+  usage: Record<string, StorageUsage>;
+  quotas: Record<string, StorageQuota>;
+  defaultQuota: StorageQuota;
+  csrfToken: string;
 }
 
-export function WhitelistDisplay({ whitelist }: WhitelistDisplayProps) {
+export function WhitelistDisplay({
+  whitelist,
+  usage,
+  quotas,
+  defaultQuota,
+  csrfToken,
+}: WhitelistDisplayProps) {
   return (
     <div>
       <h3 class="text-lg font-semibold mb-3">
@@ -20,8 +32,17 @@ export function WhitelistDisplay({ whitelist }: WhitelistDisplayProps) {
         </div>
       ) : (
         <div class="space-y-2">
-          {whitelist.map((pubkey) => (
-            <WhitelistItem pubkey={pubkey} />
+          <p class="text-sm text-base-content/70">
+            Leave both quota fields empty to use the default quota
+          </p>
+          {whitelist.map((entry) => (
+            <WhitelistItem
+              entry={entry}
+              usage={usage[entry.pubkey] ?? { bytes: 0, blobs: 0 }}
+              quota={quotas[entry.pubkey] ?? defaultQuota}
+              customQuota={entry.pubkey in quotas}
+              csrfToken={csrfToken}
+            />
           ))}
         </div>
       )}
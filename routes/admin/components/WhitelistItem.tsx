@@ -1,21 +1,103 @@
+import CsrfInput from "../../../components/CsrfInput";
+import type { StorageQuota, WhitelistEntry } from "../../../services/config";
+import type { StorageUsage } from "../../../services/storage";
+import { ROLE_NAMES } from "./AddWhitelistForm";
+
 interface WhitelistItemProps {
-  pubkey: string;
+  entry: WhitelistEntry;
+  usage: StorageUsage;
+  quota: StorageQuota;
+  /** Whether the pubkey has its own quota instead of the default quota */
+  customQuota: boolean;
+  csrfToken: string;
+}
+
+function formatFileSize(bytes: number): string {
+  const sizes = ["B", "KB", "MB", "GB", "TB"];
+  if (bytes === 0) return "0 B";
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
 }
 
-export function WhitelistItem({ pubkey }: WhitelistItemProps) {
+export function WhitelistItem({
+  entry,
+  usage,
+  quota,
+  customQuota,
+  csrfToken,
+}: WhitelistItemProps) {
+  const { pubkey, role, label } = entry;
+  const usageText =
+    `${formatFileSize(usage.bytes)} of ${quota.maxBytes ? formatFileSize(quota.maxBytes) : "unlimited"}, ` +
+    `${usage.blobs} of ${quota.maxBlobs ?? "unlimited"} blobs` +
+    (customQuota ? "" : " (default quota)");
+
   return (
-    <div class="flex items-center gap-4 p-3 bg-base-200 rounded-lg">
-      <code class="flex-1 text-sm font-mono break-all">{pubkey}</code>
-      <form method="POST" action="/admin/remove-whitelist">
-        <input type="hidden" name="pubkey" value={pubkey} />
-        <button
-          type="submit"
-          class="btn btn-sm btn-error"
-          onclick="return confirm('Are you sure you want to remove this public key from the whitelist?')"
+    <div class="p-3 bg-base-200 rounded-lg space-y-2">
+      <div class="flex items-center gap-4">
+        <div class="flex-1 min-w-0">
+          {label ? (
+            <div class="font-semibold" safe>
+              {label}
+            </div>
+          ) : null}
+          <code class="text-sm font-mono break-all">{pubkey}</code>
+        </div>
+        <span class="badge badge-outline" safe>
+          {ROLE_NAMES[role]}
+        </span>
+        <form method="POST" action="/admin/remove-whitelist">
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="pubkey" value={pubkey} />
+          <button
+            type="submit"
+            class="btn btn-sm btn-error"
+            onclick="return confirm('Are you sure you want to remove this public key from the whitelist?')"
+          >
+            Remove
+          </button>
+        </form>
+      </div>
+      <div class="flex flex-wrap items-center gap-4">
+        <span class="text-sm text-base-content/70 flex-1" safe>
+          {usageText}
+        </span>
+        <form
+          method="POST"
+          action="/admin/update-quota"
+          class="flex items-center gap-2"
         >
-          Remove
-        </button>
-      </form>
+          <CsrfInput token={csrfToken} />
+          <input type="hidden" name="pubkey" value={pubkey} />
+          <input
+            type="number"
+            name="quotaSize"
+            value={
+              customQuota && quota.maxBytes
+                ? Math.round(quota.maxBytes / (1024 * 1024)).toString()
+                : ""
+            }
+            min="1"
+            class="input input-bordered input-sm w-28"
+            placeholder="MB"
+            title="Maximum storage in MB"
+          />
+          <input
+            type="number"
+            name="quotaBlobs"
+            value={
+              customQuota && quota.maxBlobs ? quota.maxBlobs.toString() : ""
+            }
+            min="1"
+            class="input input-bordered input-sm w-28"
+            placeholder="Blobs"
+            title="Maximum number of blobs"
+          />
+          <button type="submit" class="btn btn-sm">
+            Set Quota
+          </button>
+        </form>
+      </div>
     </div>
   );
 }
@@ -1,18 +1,36 @@
+import type { StorageQuota, WhitelistEntry } from "../../../services/config";
+import type { StorageUsage } from "../../../services/storage";
 import { AddWhitelistForm } from "./AddWhitelistForm";
 import { WhitelistDisplay } from "./WhitelistDisplay";
 
 interface WhitelistManagementProps {
-  whitelist: string[];
+  whitelist: WhitelistEntry[];
+  usage: Record<string, StorageUsage>;
+  quotas: Record<string, StorageQuota>;
+  defaultQuota: StorageQuota;
+  csrfToken: string;
 }
 
-export function WhitelistManagement({ whitelist }: WhitelistManagementProps) {
+export function WhitelistManagement({
+  whitelist,
+  usage,
+  quotas,
+  defaultQuota,
+  csrfToken,
+}: WhitelistManagementProps) {
   return (
     <div class="card bg-base-100 shadow-md">
       <div class="card-body">
         <h2 class="card-title text-2xl mb-4">Whitelist Management</h2>
 
-        <AddWhitelistForm />
-        <WhitelistDisplay whitelist={whitelist} />
+        <AddWhitelistForm csrfToken={csrfToken} />
+        <WhitelistDisplay
+          whitelist={whitelist}
+          usage={usage}
+          quotas={quotas}
+          defaultQuota={defaultQuota}
+          csrfToken={csrfToken}
+        />
       </div>
     </div>
   );
@@ -4,5 +4,10 @@ export { WhitelistManagement } from "./WhitelistManagement";
 export { WhitelistDisplay } from "./WhitelistDisplay";
 export { WhitelistItem } from "./WhitelistItem";
 export { AddWhitelistForm } from "./AddWhitelistForm";
+export { ReportsManagement } from "./ReportsManagement";
+export { ReportItem } from "./ReportItem";
+export { RetentionSettings } from "./RetentionSettings";
+export { TrashManagement } from "./TrashManagement";
+export { IntegrityStatus } from "./IntegrityStatus";
 export { DangerZone } from "./DangerZone";
 export { Navigation } from "./Navigation";
@@ -0,0 +1,195 @@
+import Document from "../../components/Document";
+import { APP_PASSWORD, APP_USERNAME } from "../../env";
+import adminSessions from "../../services/sessions";
+import {
+  clearSessionCookie,
+  createSessionCookie,
+  getAdminSession,
+  getClientUrl,
+  hasAdminLogin,
+  isAdminPubkey,
+  withAuth,
+} from "../../utils/auth";
+import { withCsrf, withSameOrigin } from "../../utils/csrf";
+import {
+  createAuthErrorResponse,
+  isValidHttpAuth,
+  parseAuthorizationHeader,
+  verifyEventSignature,
+} from "../../utils/nostr";
+
+/** Signs a NIP-98 event for the login URL with a NIP-07 extension and posts it */
+const LOGIN_SCRIPT = `
+document.getElementById("nostr-login").addEventListener("click", async () => {
+  const status = document.getElementById("login-status");
+  if (!window.nostr) {
+    status.textContent = "No Nostr signer extension found";
+    return;
+  }
+  try {
+    const event = await window.nostr.signEvent({
+      kind: 27235,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [["u", location.origin + location.pathname], ["method", "POST"]],
+      content: "",
+    });
+    const res = await fetch(location.pathname, {
+      method: "POST",
+      headers: { Authorization: "Nostr " + btoa(JSON.stringify(event)) },
+    });
+    if (res.ok) location.href = "/admin";
+    else status.textContent = res.headers.get("X-Reason") || "Login failed";
+  } catch (error) {
+    status.textContent = "Signing the login event was cancelled";
+  }
+});
+`;
+
+function LoginPage() {
+  return (
+    <div class="max-w-md mx-auto p-8">
+      <div class="card bg-base-100 shadow-md">
+        <div class="card-body space-y-4">
+          <h1 class="card-title text-2xl">Admin Login</h1>
+          <p class="text-base-content/70">
+            Sign in with a Nostr signer extension using a public key that has
+            the admin role.
+          </p>
+          {hasAdminLogin() ? null : (
+            <div role="alert" class="alert alert-warning">
+              <span>
+                No admin is set up yet. Set the APP_OWNER environment variable
+                to your npub, or APP_PASSWORD to a password, and restart the
+                server.
+              </span>
+            </div>
+          )}
+          <button id="nostr-login" type="button" class="btn btn-primary">
+            Sign in with Nostr
+          </button>
+          <p id="login-status" class="text-sm text-error"></p>
+          {APP_PASSWORD ? (
+            <a href="/admin/login/password" class="btn btn-ghost btn-sm">
+              Sign in with password instead
+            </a>
+          ) : null}
+        </div>
+      </div>
+      <script>{LOGIN_SCRIPT}</script>
+    </div>
+  );
+}
+
+/**
+ * Handle GET /admin/login - Show the login page
+ */
+export async function loginPage(req: Request): Promise<Response> {
+  if (getAdminSession(req)) {
+    return new Response(null, {
+      status: 302,
+      headers: { Location: "/admin" },
+    });
+  }
+
+  return new Response(
+    await (
+      <Document title="Admin Login - Blob Box">
+        <LoginPage />
+      </Document>
+    ),
+    {
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+      },
+    },
+  );
+}
+
+/**
+ * Handle POST /admin/login - Start a session with a NIP-98 auth event
+ */
+export async function nostrLogin(req: Request): Promise<Response> {
+  const event = parseAuthorizationHeader(
+    req.headers.get("Authorization") ?? "",
+  );
+  if (!event) {
+    return createAuthErrorResponse("Invalid authorization header format");
+  }
+
+  if (!verifyEventSignature(event)) {
+    return createAuthErrorResponse("Invalid event signature");
+  }
+
+  if (!isValidHttpAuth(event, getClientUrl(req), "POST")) {
+    return createAuthErrorResponse("Invalid login event");
+  }
+
+  if (!isAdminPubkey(event.pubkey)) {
+    return createAuthErrorResponse("Pubkey is not an admin", 403);
+  }
+
+  const token = adminSessions.create(event.pubkey);
+  console.info(`Admin ${event.pubkey} signed in`);
+
+  return new Response(JSON.stringify({ message: "Signed in" }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json",
+      "Set-Cookie": createSessionCookie(req, token),
+    },
+  });
+}
+
+/**
+ * Handle GET /admin/login/password - Start a session with HTTP Basic credentials
+ */
+export async function passwordLogin(req: Request): Promise<Response> {
+  const token = adminSessions.create();
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: "/admin",
+      "Set-Cookie": createSessionCookie(req, token),
+    },
+  });
+}
+
+/**
+ * Handle POST /admin/logout - End the current session
+ */
+export async function logout(req: Request): Promise<Response> {
+  const session = getAdminSession(req);
+  if (session) adminSessions.delete(session.token);
+
+  return new Response(null, {
+    status: 302,
+    headers: {
+      Location: "/admin/login",
+      "Set-Cookie": clearSessionCookie(),
+    },
+  });
+}
+
+/**
+ * Password login falls back to HTTP Basic auth and is unavailable without a password
+ */
+function withPasswordAuth(handler: (req: Request) => Promise<Response>) {
+  if (!APP_PASSWORD)
+    return async () => new Response("Not Found", { status: 404 });
+
+  return withAuth({ username: APP_USERNAME, password: APP_PASSWORD })(handler);
+}
+
+export const loginRoutes = {
+  "/admin/login": {
+    GET: loginPage,
+    POST: withSameOrigin()(nostrLogin),
+  },
+  "/admin/login/password": {
+    GET: withPasswordAuth(passwordLogin),
+  },
+  "/admin/logout": {
+    POST: withCsrf()(logout),
+  },
+};
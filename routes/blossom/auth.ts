@@ -1,20 +1,91 @@
+import consumedAuthEvents from "../../services/authEvents.ts";
 import appConfig from "../../services/config.ts";
 import {
   createAuthErrorResponse,
   isValidBlossomAuth,
   parseAuthorizationHeader,
   verifyEventSignature,
+  type BlossomAuthType,
   type NostrEvent,
 } from "../../utils/nostr.ts";
 import type { AuthResult, EarlyAuthResult } from "./types.ts";
 
+/**
+ * Get the expiration timestamp of an event, if it has one
+ */
+function getEventExpiration(event: NostrEvent): number | undefined {
+  const expirationTag = event.tags.find((tag) => tag[0] === "expiration");
+  const expiration = parseInt(expirationTag?.[1] ?? "");
+  return isNaN(expiration) ? undefined : expiration;
+}
+
+/**
+ * Check the created_at and expiration of an authorization event against the server limits
+ * Returns an error message if the event should be rejected
+ */
+function validateEventTimes(event: NostrEvent): string | null {
+  const now = Math.floor(Date.now() / 1000);
+  const maxAge = appConfig.get("authMaxAge") ?? 60 * 60;
+  const maxFutureSkew = appConfig.get("authMaxFutureSkew") ?? 5 * 60;
+
+  if (event.created_at > now + maxFutureSkew) {
+    return "Authorization event created_at is in the future";
+  }
+  if (event.created_at < now - maxAge) {
+    return "Authorization event is too old";
+  }
+
+  const expiration = getEventExpiration(event);
+  if (expiration === undefined) {
+    if (appConfig.get("requireAuthExpiration") ?? true) {
+      return "Authorization event must have an expiration tag";
+    }
+  } else if (now > expiration) {
+    return "Authorization event has expired";
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a server tag value to a lowercase hostname
+ */
+function normalizeServer(value: string): string {
+  // Tags should hold a bare domain, but tolerate full URLs
+  try {
+    const url = new URL(value.includes("://") ? value : `http://${value}`);
+    return url.hostname.toLowerCase();
+  } catch {
+    return value.toLowerCase();
+  }
+}
+
+/**
+ * Check that an event scoped with `server` tags includes this server (BUD-01)
+ * Returns an error message if the event is meant for other servers
+ */
+function validateServerTags(event: NostrEvent): string | null {
+  const servers = event.tags
+    .filter((tag) => tag[0] === "server" && tag[1])
+    .map((tag) => normalizeServer(tag[1]!));
+  if (servers.length === 0) return null;
+
+  // The Host header is client controlled, so only configured domains are trusted
+  const domains = appConfig.getServerDomains();
+  if (domains.length === 0)
+    return "Authorization events with server tags are not accepted until this server's domains are configured";
+
+  if (servers.some((server) => domains.includes(server))) return null;
+  return `Authorization event is not valid for this server (${domains.join(", ")})`;
+}
+
 /**
  * Early validation of authorization (without hash validation)
  * This should be called before processing request body to prevent DoS attacks
  */
 export async function validateAuthorizationEarly(
   req: Request,
-  authType: "upload" | "list" | "delete",
+  authType: BlossomAuthType,
 ): Promise<EarlyAuthResult> {
   const authHeader = req.headers.get("Authorization");
   if (!authHeader) {
@@ -61,25 +132,46 @@ export async function validateAuthorizationEarly(
     };
   }
 
-  // Check expiration if present
-  const expirationTag = event.tags.find((tag) => tag[0] === "expiration");
-  if (expirationTag && expirationTag[1]) {
-    const expiration = parseInt(expirationTag[1]);
-    if (!isNaN(expiration) && Date.now() / 1000 > expiration) {
-      return {
-        success: false,
-        response: createAuthErrorResponse("Authorization event has expired"),
-      };
-    }
+  // Check the event is recent and not expired
+  const timeError = validateEventTimes(event);
+  if (timeError) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(timeError),
+    };
+  }
+
+  // Check the event is meant for this server
+  const serverError = validateServerTags(event);
+  if (serverError) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(serverError),
+    };
   }
 
-  // Check if pubkey is whitelisted
+  // Check if pubkey is blocked, not whitelisted or lacks the role for this action
+  if (appConfig.isPubkeyBlocked(event.pubkey)) {
+    return {
+      success: false,
+      response: createAuthErrorResponse("Pubkey is blocked", 403),
+    };
+  }
   if (!appConfig.isWhitelisted(event.pubkey)) {
     return {
       success: false,
       response: createAuthErrorResponse("Pubkey not whitelisted", 403),
     };
   }
+  if (!appConfig.hasPermission(event.pubkey, authType)) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(
+        `Pubkey is not allowed to ${authType}`,
+        403,
+      ),
+    };
+  }
 
   return { success: true, pubkey: event.pubkey, event };
 }
@@ -90,10 +182,10 @@ export async function validateAuthorizationEarly(
  */
 export function validateAuthorizationHash(
   event: NostrEvent,
-  authType: "upload" | "delete",
+  authType: Exclude<BlossomAuthType, "list">,
   expectedHashes: string[],
 ): boolean {
-  // For upload and delete, check if it has the required 'x' tags with expected hashes
+  // For upload, media and delete, check if it has the required 'x' tags with expected hashes
   const xTags = event.tags.filter((tag) => tag[0] === "x");
   if (xTags.length === 0) {
     return false;
@@ -115,7 +207,7 @@ export function validateAuthorizationHash(
  */
 export async function validateAuthorization(
   req: Request,
-  authType: "upload" | "list" | "delete",
+  authType: BlossomAuthType,
   expectedHashes?: string[],
 ): Promise<AuthResult> {
   const authHeader = req.headers.get("Authorization");
@@ -152,13 +244,63 @@ export async function validateAuthorization(
     };
   }
 
-  // Check if pubkey is whitelisted
+  // Check the event is recent and not expired
+  const timeError = validateEventTimes(event);
+  if (timeError) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(timeError),
+    };
+  }
+
+  // Check the event is meant for this server
+  const serverError = validateServerTags(event);
+  if (serverError) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(serverError),
+    };
+  }
+
+  // Check if pubkey is blocked, not whitelisted or lacks the role for this action
+  if (appConfig.isPubkeyBlocked(event.pubkey)) {
+    return {
+      success: false,
+      response: createAuthErrorResponse("Pubkey is blocked", 403),
+    };
+  }
   if (!appConfig.isWhitelisted(event.pubkey)) {
     return {
       success: false,
       response: createAuthErrorResponse("Pubkey not whitelisted", 403),
     };
   }
+  if (!appConfig.hasPermission(event.pubkey, authType)) {
+    return {
+      success: false,
+      response: createAuthErrorResponse(
+        `Pubkey is not allowed to ${authType}`,
+        403,
+      ),
+    };
+  }
+
+  // Delete authorizations can only be used once, remember them until they're too old to be accepted
+  if (authType === "delete") {
+    const maxAge = appConfig.get("authMaxAge") ?? 60 * 60;
+    const expiresAt = Math.min(
+      getEventExpiration(event) ?? Infinity,
+      event.created_at + maxAge,
+    );
+    if (!consumedAuthEvents.consume(event.id, expiresAt)) {
+      return {
+        success: false,
+        response: createAuthErrorResponse(
+          "Authorization event has already been used",
+        ),
+      };
+    }
+  }
 
   return { success: true, pubkey: event.pubkey };
 }
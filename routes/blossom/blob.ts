@@ -1,4 +1,4 @@
-import { statSync } from "fs";
+import appConfig from "../../services/config.ts";
 import blobStorage from "../../services/storage.ts";
 import {
   createCorsErrorResponse,
@@ -6,12 +6,12 @@ import {
   handleCorsPreflightRequest,
   withCors,
 } from "../../utils/cors.ts";
+import { getAdminSession } from "../../utils/auth.ts";
 import { createAuthErrorResponse, isValidSha256 } from "../../utils/nostr.ts";
 import { validateAuthorization } from "./auth.ts";
 import {
   createBlobHeaders,
-  findBlobByHash,
-  getMimeType,
+  getBlobMimeType,
   handleInvalidRange,
   handleRangeRequest,
   parseBlobPath,
@@ -34,7 +34,11 @@ async function handleDelete(req: Request, hash: string): Promise<Response> {
   }
 
   try {
-    const deleted = await blobStorage.deleteBlobByHash(hash);
+    // Only the caller's ownership is removed, the blob stays while others own it
+    const deleted = await blobStorage.deleteBlobForPubkey(
+      hash,
+      authResult.pubkey!,
+    );
 
     if (!deleted) {
       return createAuthErrorResponse("Blob not found", 404);
@@ -70,18 +74,23 @@ async function handleBlobGet(req: Request): Promise<Response> {
     );
   }
 
-  // Find the file with this hash
-  const foundFilePath = findBlobByHash(blobInfo.hash);
-  if (!foundFilePath) {
-    return createCorsErrorResponse("Blob not found", 404);
+  // Check authorization before revealing whether the blob exists
+  if (appConfig.get("requireAuthToGet") && !getAdminSession(req)) {
+    const authResult = await validateAuthorization(req, "get", [blobInfo.hash]);
+    if (!authResult.success) {
+      return authResult.response!;
+    }
   }
 
-  // Get file stats
-  const stats = statSync(foundFilePath);
-  const fileSize = stats.size;
+  // Find the blob in the blob directory or the storage backend
+  const blob = blobStorage.openBlob(blobInfo.hash);
+  if (!blob) {
+    return createCorsErrorResponse("Blob not found", 404);
+  }
+  const fileSize = blob.size;
 
   // Determine MIME type
-  const mimeType = getMimeType(foundFilePath, blobInfo.extension);
+  const mimeType = getBlobMimeType(blob, blobInfo.extension);
 
   // Create base headers
   const headers = createBlobHeaders(mimeType, fileSize);
@@ -94,15 +103,20 @@ async function handleBlobGet(req: Request): Promise<Response> {
     const range = parseRangeHeader(rangeHeader, fileSize);
 
     if (range) {
-      return handleRangeRequest(foundFilePath, range, headers, fileSize);
+      return handleRangeRequest(blob, range, headers);
     } else {
       return handleInvalidRange(headers, fileSize);
     }
   }
 
-  // Regular GET request - return full file
-  const file = Bun.file(foundFilePath);
-  return createCorsResponse(file, {
+  // Regular GET request - return full file, local files are sent without streaming through JS
+  // unless they have to be verified on untrusted storage
+  const body = blobStorage.needsVerification(blobInfo.hash, blob)
+    ? blobStorage.verifyBlobStream(blobInfo.hash, blob)
+    : blob.path
+      ? Bun.file(blob.path)
+      : blob.stream();
+  return createCorsResponse(body, {
     status: 200,
     headers,
   });
@@ -123,18 +137,23 @@ async function handleBlobHead(req: Request): Promise<Response> {
     );
   }
 
-  // Find the file with this hash
-  const foundFilePath = findBlobByHash(blobInfo.hash);
-  if (!foundFilePath) {
-    return createCorsErrorResponse("Blob not found", 404);
+  // Check authorization before revealing whether the blob exists
+  if (appConfig.get("requireAuthToGet") && !getAdminSession(req)) {
+    const authResult = await validateAuthorization(req, "get", [blobInfo.hash]);
+    if (!authResult.success) {
+      return authResult.response!;
+    }
   }
 
-  // Get file stats
-  const stats = statSync(foundFilePath);
-  const fileSize = stats.size;
+  // Find the blob in the blob directory or the storage backend
+  const blob = blobStorage.openBlob(blobInfo.hash);
+  if (!blob) {
+    return createCorsErrorResponse("Blob not found", 404);
+  }
+  const fileSize = blob.size;
 
   // Determine MIME type
-  const mimeType = getMimeType(foundFilePath, blobInfo.extension);
+  const mimeType = getBlobMimeType(blob, blobInfo.extension);
 
   // Create base headers
   const headers = createBlobHeaders(mimeType, fileSize);
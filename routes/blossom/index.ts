@@ -1,6 +1,9 @@
 import type { RouterTypes } from "bun";
 import { blobRoutes } from "./blob.ts";
 import { listRoutes } from "./list.ts";
+import { mediaRoutes } from "./media.ts";
+import { mirrorRoutes } from "./mirror.ts";
+import { reportRoutes } from "./report.ts";
 import { uploadRoutes } from "./upload.ts";
 
 const routes: Record<
@@ -8,6 +11,9 @@ const routes: Record<
   RouterTypes.RouteHandler<any> | RouterTypes.RouteHandlerObject<any>
 > = {
   ...uploadRoutes,
+  ...mirrorRoutes,
+  ...mediaRoutes,
+  ...reportRoutes,
   ...listRoutes,
   ...blobRoutes,
 };
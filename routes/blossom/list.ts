@@ -1,13 +1,21 @@
 import { basename } from "path";
+import appConfig from "../../services/config.ts";
 import blobStorage from "../../services/storage.ts";
+import { isAdminPubkey } from "../../utils/auth.ts";
 import {
   addCorsHeaders,
   handleCorsPreflightRequest,
   withCors,
 } from "../../utils/cors.ts";
 import { createAuthErrorResponse, isValidPubkey } from "../../utils/nostr.ts";
+import { validateAuthorization } from "./auth.ts";
 import type { BlobDescriptor } from "./types.ts";
-import { createBlobDescriptor, determineMimeType } from "./utils.ts";
+import {
+  createBlobDescriptor,
+  determineMimeType,
+  generateFilename,
+  getPublicBaseUrl,
+} from "./utils.ts";
 
 /**
  * Handle GET /list/<pubkey> - List blobs for pubkey
@@ -18,8 +26,19 @@ async function handleList(req: Request, pubkey: string): Promise<Response> {
     return createAuthErrorResponse("Invalid pubkey format", 400);
   }
 
-  // Optional: Validate authorization for listing (if required by server config)
-  // For now, we'll allow listing without auth, but servers may require it
+  // Private servers only let pubkeys list their own blobs
+  if (appConfig.get("requireAuthToList")) {
+    const authResult = await validateAuthorization(req, "list");
+    if (!authResult.success) {
+      return authResult.response!;
+    }
+    if (authResult.pubkey !== pubkey && !isAdminPubkey(authResult.pubkey!)) {
+      return createAuthErrorResponse(
+        "Pubkey is not allowed to list another pubkey's blobs",
+        403,
+      );
+    }
+  }
 
   try {
     const url = new URL(req.url);
@@ -32,27 +51,32 @@ async function handleList(req: Request, pubkey: string): Promise<Response> {
     if (since) {
       const sinceTimestamp = parseInt(since);
       if (!isNaN(sinceTimestamp)) {
-        blobs = blobs.filter((blob) => blob.mtime / 1000 >= sinceTimestamp);
+        blobs = blobs.filter((blob) => blob.uploaded >= sinceTimestamp);
       }
     }
 
     if (until) {
       const untilTimestamp = parseInt(until);
       if (!isNaN(untilTimestamp)) {
-        blobs = blobs.filter((blob) => blob.mtime / 1000 <= untilTimestamp);
+        blobs = blobs.filter((blob) => blob.uploaded <= untilTimestamp);
       }
     }
 
     // Convert to blob descriptors
+    const baseUrl = getPublicBaseUrl(req);
     const blobDescriptors: BlobDescriptor[] = blobs.map((blob) => {
-      const filename = basename(blob.relativePath);
-      const mimeType = determineMimeType(filename);
+      // Blobs only stored in the backend get their extension from the recorded type
+      const filename = blob.relativePath
+        ? basename(blob.relativePath)
+        : generateFilename(blob.hash, blob.type);
+      const mimeType = determineMimeType(filename, blob.type);
 
       return createBlobDescriptor(
+        baseUrl,
         blob.hash,
         blob.size,
         mimeType,
-        Math.floor(blob.mtime / 1000),
+        blob.uploaded,
         filename,
       );
     });
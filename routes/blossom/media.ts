@@ -0,0 +1,190 @@
+import sharp from "sharp";
+import appConfig from "../../services/config.ts";
+import blobStorage, {
+  BlobTooLargeError,
+  type TempBlob,
+} from "../../services/storage.ts";
+import {
+  addCorsHeaders,
+  handleCorsPreflightRequest,
+  withCors,
+} from "../../utils/cors.ts";
+import { createAuthErrorResponse } from "../../utils/nostr.ts";
+import {
+  validateAuthorizationEarly,
+  validateAuthorizationHash,
+} from "./auth.ts";
+import {
+  checkQuota,
+  checkUploadLimits,
+  createBlobDescriptor,
+  generateFilename,
+  getPublicBaseUrl,
+} from "./utils.ts";
+
+/**
+ * Re-encode an image without any metadata, scaled down to the configured maximum dimension
+ */
+async function optimizeImage(
+  filePath: string,
+): Promise<{ data: Buffer; mimeType: string }> {
+  const format = appConfig.get("mediaFormat") ?? "webp";
+  const maxDimension = appConfig.get("mediaMaxDimension") ?? 2048;
+
+  // sharp drops EXIF/GPS metadata from the output unless asked to keep it,
+  // so apply the EXIF orientation to the pixels before it is lost
+  const image = sharp(filePath, { animated: format === "webp" })
+    .rotate()
+    .resize({
+      width: maxDimension,
+      height: maxDimension,
+      fit: "inside",
+      withoutEnlargement: true,
+    });
+
+  const data =
+    format === "jpeg"
+      ? await image.jpeg({ quality: 85, mozjpeg: true }).toBuffer()
+      : await image.webp({ quality: 80 }).toBuffer();
+
+  return { data, mimeType: `image/${format}` };
+}
+
+/**
+ * Handle PUT /media - Upload and optimize an image (BUD-05)
+ */
+async function handleMedia(req: Request): Promise<Response> {
+  let original: TempBlob | undefined;
+  let optimized: TempBlob | undefined;
+
+  try {
+    // STEP 1: Early authorization validation (before processing request body)
+    const earlyAuthResult = await validateAuthorizationEarly(req, "media");
+    if (!earlyAuthResult.success) {
+      return earlyAuthResult.response!;
+    }
+
+    const contentType = req.headers.get("Content-Type");
+    if (contentType && !contentType.startsWith("image/")) {
+      return createAuthErrorResponse("Only images can be optimized", 415);
+    }
+
+    // Check the declared length against the server limits
+    const contentLength = parseInt(req.headers.get("Content-Length") ?? "");
+    const limitsResponse = checkUploadLimits(
+      isNaN(contentLength) ? undefined : contentLength,
+      `image/${appConfig.get("mediaFormat") ?? "webp"}`,
+    );
+    if (limitsResponse) return limitsResponse;
+
+    if (!req.body) return createAuthErrorResponse("Empty request body", 400);
+
+    // STEP 2: Stream the original image to a temporary file
+    try {
+      original = await blobStorage.writeTempBlob(
+        req.body,
+        appConfig.get("maxFileSize"),
+      );
+    } catch (error) {
+      if (error instanceof BlobTooLargeError)
+        return createAuthErrorResponse(error.message, 413);
+      throw error;
+    }
+
+    if (original.size === 0)
+      return createAuthErrorResponse("Empty request body", 400);
+
+    // STEP 3: Validate that the authorization contains the original hash
+    if (
+      !validateAuthorizationHash(earlyAuthResult.event!, "media", [
+        original.hash,
+      ])
+    ) {
+      return createAuthErrorResponse(
+        "Authorization hash does not match uploaded content",
+        400,
+      );
+    }
+
+    if (appConfig.isHashBlocked(original.hash)) {
+      return createAuthErrorResponse("Blob is blocked", 403);
+    }
+
+    // STEP 4: Optimize the image and store the result instead of the original
+    let output: { data: Buffer; mimeType: string };
+    try {
+      output = await optimizeImage(original.path);
+    } catch (error) {
+      console.error("Error optimizing image:", error);
+      return createAuthErrorResponse("Unsupported image format", 415);
+    }
+
+    optimized = await blobStorage.writeTempBlob(
+      new Blob([output.data]).stream(),
+    );
+    if (appConfig.isHashBlocked(optimized.hash)) {
+      return createAuthErrorResponse("Blob is blocked", 403);
+    }
+
+    const quotaResponse = checkQuota(
+      earlyAuthResult.pubkey!,
+      optimized.size,
+      optimized.hash,
+    );
+    if (quotaResponse) return quotaResponse;
+
+    const filename = generateFilename(optimized.hash, output.mimeType);
+
+    await blobStorage.storeBlobForPubkey(
+      earlyAuthResult.pubkey!,
+      filename,
+      optimized,
+    );
+    blobStorage.setOriginalHash(optimized.hash, original.hash);
+
+    // Create blob descriptor for the optimized blob
+    const blobDescriptor = createBlobDescriptor(
+      getPublicBaseUrl(req),
+      optimized.hash,
+      optimized.size,
+      output.mimeType,
+      Math.floor(Date.now() / 1000),
+      filename,
+    );
+
+    return new Response(JSON.stringify(blobDescriptor), {
+      status: 200,
+      headers: addCorsHeaders({
+        "Content-Type": "application/json",
+      }),
+    });
+  } catch (error) {
+    console.error("Error handling media upload:", error);
+    return createAuthErrorResponse("Internal server error", 500);
+  } finally {
+    // Clean up temporary files that were not stored
+    if (original) await blobStorage.discardTempBlob(original);
+    if (optimized) await blobStorage.discardTempBlob(optimized);
+  }
+}
+
+/**
+ * Handle CORS preflight requests
+ */
+async function handleCorsOptions(req: Request): Promise<Response> {
+  return handleCorsPreflightRequest();
+}
+
+/**
+ * Handle PUT /media route
+ */
+export async function handleMediaRoute(req: Request): Promise<Response> {
+  return handleMedia(req);
+}
+
+export const mediaRoutes = {
+  "/media": {
+    PUT: withCors(handleMediaRoute),
+    OPTIONS: withCors(handleCorsOptions),
+  },
+};
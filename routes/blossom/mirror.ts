@@ -0,0 +1,330 @@
+import { lookup } from "dns/promises";
+import { basename } from "path";
+import appConfig from "../../services/config.ts";
+import blobStorage, {
+  BlobTooLargeError,
+  type TempBlob,
+} from "../../services/storage.ts";
+import {
+  addCorsHeaders,
+  handleCorsPreflightRequest,
+  withCors,
+} from "../../utils/cors.ts";
+import { createAuthErrorResponse } from "../../utils/nostr.ts";
+import {
+  validateAuthorizationEarly,
+  validateAuthorizationHash,
+} from "./auth.ts";
+import {
+  checkQuota,
+  checkUploadLimits,
+  createBlobDescriptor,
+  determineMimeType,
+  generateFilename,
+  getPublicBaseUrl,
+} from "./utils.ts";
+
+/** Maximum number of redirects followed when downloading a remote blob */
+const MAX_REDIRECTS = 5;
+
+/** Time limit (in milliseconds) for downloading a remote blob */
+const MIRROR_TIMEOUT = 10 * 60 * 1000;
+
+/** IPv4 ranges that aren't reachable on the public internet, as [address, prefix length] */
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+/**
+ * Convert an IPv4 address to a number
+ */
+function parseIPv4(address: string): number {
+  return address
+    .split(".")
+    .reduce((value, part) => value * 256 + parseInt(part, 10), 0);
+}
+
+/**
+ * Check if an IPv4 address is loopback, private, link-local or otherwise not public
+ */
+function isPrivateIPv4(address: string): boolean {
+  const value = parseIPv4(address);
+  return PRIVATE_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(parseIPv4(base) / size);
+  });
+}
+
+/**
+ * Expand an IPv6 address to its eight 16-bit groups
+ */
+function parseIPv6(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+
+  // Convert an embedded IPv4 address to the last two groups
+  const ipv4 = text.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (ipv4) {
+    const value = parseIPv4(ipv4);
+    text =
+      text.slice(0, -ipv4.length) +
+      `${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros =
+    tail === undefined
+      ? []
+      : Array(8 - headGroups.length - tailGroups.length).fill("0");
+
+  return [...headGroups, ...zeros, ...tailGroups].map((group) =>
+    parseInt(group, 16),
+  );
+}
+
+/**
+ * Check if an IPv6 address is loopback, unique local, link-local, multicast
+ * or an IPv4 address that isn't public
+ */
+function isPrivateIPv6(address: string): boolean {
+  const groups = parseIPv6(address);
+  const [first] = groups as [number];
+
+  // IPv4-compatible, IPv4-mapped and NAT64 addresses
+  const prefix = groups.slice(0, 6).join(":");
+  if (
+    prefix === "0:0:0:0:0:0" ||
+    prefix === "0:0:0:0:0:65535" ||
+    prefix === "100:65435:0:0:0:0"
+  ) {
+    return isPrivateIPv4(
+      [groups[6]! >> 8, groups[6]! & 0xff, groups[7]! >> 8, groups[7]! & 0xff]
+        .map(String)
+        .join("."),
+    );
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 ||
+    (first & 0xffc0) === 0xfe80 ||
+    (first & 0xff00) === 0xff00
+  );
+}
+
+/**
+ * Check that the host of a URL only resolves to public addresses,
+ * so mirror requests can't reach the server's own network
+ */
+async function isPublicUrl(url: URL): Promise<boolean> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  try {
+    const addresses = await lookup(url.hostname.replace(/^\[|\]$/g, ""), {
+      all: true,
+    });
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address, family }) =>
+        family === 4 ? !isPrivateIPv4(address) : !isPrivateIPv6(address),
+      )
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Download a remote blob, checking the address of every redirect target
+ * Returns null when the URL or a redirect points to a non-public address
+ */
+async function fetchRemoteBlob(
+  url: URL,
+  signal: AbortSignal,
+): Promise<Response | null> {
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    if (!(await isPublicUrl(url))) return null;
+
+    const response = await fetch(url, { redirect: "manual", signal });
+    const location = response.headers.get("Location");
+    if (response.status < 300 || response.status >= 400 || !location)
+      return response;
+
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+
+  return null;
+}
+
+/**
+ * Parse and validate the remote URL from the mirror request body
+ */
+async function parseMirrorUrl(req: Request): Promise<URL | null> {
+  try {
+    const body = (await req.json()) as { url?: unknown };
+    if (typeof body.url !== "string") return null;
+
+    const url = new URL(body.url);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+    return url;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle PUT /mirror - Mirror a blob from a remote URL (BUD-04)
+ */
+async function handleMirror(req: Request): Promise<Response> {
+  let blob: TempBlob | undefined;
+
+  try {
+    // STEP 1: Validate authorization before downloading anything
+    const earlyAuthResult = await validateAuthorizationEarly(req, "upload");
+    if (!earlyAuthResult.success) {
+      return earlyAuthResult.response!;
+    }
+
+    const url = await parseMirrorUrl(req);
+    if (!url) {
+      return createAuthErrorResponse(
+        "Request body must be JSON with a valid http(s) url",
+        400,
+      );
+    }
+
+    // STEP 2: Download the remote blob
+    // The same error is returned for every failure so the endpoint can't be used to probe hosts
+    const signal = AbortSignal.timeout(MIRROR_TIMEOUT);
+    let remote: Response | null;
+    try {
+      remote = await fetchRemoteBlob(url, signal);
+    } catch (error) {
+      console.error(`Error fetching mirror URL ${url}:`, error);
+      return createAuthErrorResponse("Failed to download remote blob", 502);
+    }
+
+    if (!remote?.ok || !remote.body) {
+      console.error(
+        `Failed to mirror ${url}: ${remote ? remote.status : "address not allowed"}`,
+      );
+      return createAuthErrorResponse("Failed to download remote blob", 502);
+    }
+
+    // Get content type and check the remote length and type against the server limits
+    const contentType = remote.headers.get("Content-Type") || undefined;
+    const mimeType = determineMimeType(basename(url.pathname), contentType);
+    const contentLength = parseInt(remote.headers.get("Content-Length") ?? "");
+    const limitsResponse = checkUploadLimits(
+      isNaN(contentLength) ? undefined : contentLength,
+      mimeType,
+    );
+    if (limitsResponse) return limitsResponse;
+
+    const earlyQuotaResponse = checkQuota(
+      earlyAuthResult.pubkey!,
+      isNaN(contentLength) ? undefined : contentLength,
+    );
+    if (earlyQuotaResponse) return earlyQuotaResponse;
+
+    // Stream the remote blob to a temporary file while hashing it
+    try {
+      blob = await blobStorage.writeTempBlob(
+        remote.body,
+        appConfig.get("maxFileSize"),
+      );
+    } catch (error) {
+      if (error instanceof BlobTooLargeError)
+        return createAuthErrorResponse(error.message, 413);
+      console.error(`Error downloading mirror URL ${url}:`, error);
+      return createAuthErrorResponse("Failed to download remote blob", 502);
+    }
+
+    // STEP 3: Validate that the authorization contains the downloaded hash
+    if (
+      !validateAuthorizationHash(earlyAuthResult.event!, "upload", [blob.hash])
+    ) {
+      return createAuthErrorResponse(
+        "Authorization hash does not match remote blob",
+        400,
+      );
+    }
+
+    if (appConfig.isHashBlocked(blob.hash)) {
+      return createAuthErrorResponse("Blob is blocked", 403);
+    }
+
+    const quotaResponse = checkQuota(
+      earlyAuthResult.pubkey!,
+      blob.size,
+      blob.hash,
+    );
+    if (quotaResponse) return quotaResponse;
+
+    // Determine filename
+    const filename = generateFilename(blob.hash, mimeType);
+
+    // Move the blob into place
+    await blobStorage.storeBlobForPubkey(
+      earlyAuthResult.pubkey!,
+      filename,
+      blob,
+    );
+
+    // Create blob descriptor
+    const blobDescriptor = createBlobDescriptor(
+      getPublicBaseUrl(req),
+      blob.hash,
+      blob.size,
+      mimeType,
+      Math.floor(Date.now() / 1000),
+      filename,
+    );
+
+    return new Response(JSON.stringify(blobDescriptor), {
+      status: 200,
+      headers: addCorsHeaders({
+        "Content-Type": "application/json",
+      }),
+    });
+  } catch (error) {
+    console.error("Error handling mirror:", error);
+    return createAuthErrorResponse("Internal server error", 500);
+  } finally {
+    // Clean up the temporary file if it was not stored
+    if (blob) await blobStorage.discardTempBlob(blob);
+  }
+}
+
+/**
+ * Handle CORS preflight requests
+ */
+async function handleCorsOptions(req: Request): Promise<Response> {
+  return handleCorsPreflightRequest();
+}
+
+/**
+ * Handle PUT /mirror route
+ */
+export async function handleMirrorRoute(req: Request): Promise<Response> {
+  return handleMirror(req);
+}
+
+export const mirrorRoutes = {
+  "/mirror": {
+    PUT: withCors(handleMirrorRoute),
+    OPTIONS: withCors(handleCorsOptions),
+  },
+};
@@ -0,0 +1,92 @@
+import blobReports from "../../services/reports.ts";
+import blobStorage from "../../services/storage.ts";
+import {
+  addCorsHeaders,
+  handleCorsPreflightRequest,
+  withCors,
+} from "../../utils/cors.ts";
+import {
+  createAuthErrorResponse,
+  isValidSha256,
+  verifyEventSignature,
+  type NostrEvent,
+} from "../../utils/nostr.ts";
+
+/**
+ * Handle PUT /report - Report blobs with a NIP-56 report event (BUD-09)
+ */
+async function handleReport(req: Request): Promise<Response> {
+  let event: NostrEvent;
+  try {
+    event = (await req.json()) as NostrEvent;
+  } catch {
+    return createAuthErrorResponse("Request body must be a JSON event", 400);
+  }
+
+  if (
+    !event ||
+    event.kind !== 1984 ||
+    !Array.isArray(event.tags) ||
+    typeof event.content !== "string"
+  ) {
+    return createAuthErrorResponse("Invalid report event", 400);
+  }
+
+  if (!verifyEventSignature(event)) {
+    return createAuthErrorResponse("Invalid event signature", 400);
+  }
+
+  const hashes = event.tags
+    .filter((tag) => tag[0] === "x" && tag[1] && isValidSha256(tag[1]))
+    .map((tag) => tag[1]!.toLowerCase());
+  if (hashes.length === 0) {
+    return createAuthErrorResponse(
+      "Report event must reference a blob with an x tag",
+      400,
+    );
+  }
+
+  // Only keep reports for blobs this server has
+  const knownHashes = hashes.filter((hash) => blobStorage.hasBlob(hash));
+  if (knownHashes.length === 0) {
+    return createAuthErrorResponse("Blob not found", 404);
+  }
+
+  try {
+    blobReports.addReport(event, knownHashes);
+    console.info(
+      `Received report from ${event.pubkey} for ${knownHashes.join(", ")}`,
+    );
+
+    return new Response(JSON.stringify({ message: "Report received" }), {
+      status: 200,
+      headers: addCorsHeaders({
+        "Content-Type": "application/json",
+      }),
+    });
+  } catch (error) {
+    console.error("Error handling report:", error);
+    return createAuthErrorResponse("Internal server error", 500);
+  }
+}
+
+/**
+ * Handle CORS preflight requests
+ */
+async function handleCorsOptions(req: Request): Promise<Response> {
+  return handleCorsPreflightRequest();
+}
+
+/**
+ * Handle PUT /report route
+ */
+export async function handleReportRoute(req: Request): Promise<Response> {
+  return handleReport(req);
+}
+
+export const reportRoutes = {
+  "/report": {
+    PUT: withCors(handleReportRoute),
+    OPTIONS: withCors(handleCorsOptions),
+  },
+};
@@ -7,6 +7,8 @@ export interface BlobDescriptor {
   size: number;
   type: string;
   uploaded: number;
+  /** NIP-94 file metadata tags as defined in BUD-08 */
+  nip94?: string[][];
 }
 
 /**
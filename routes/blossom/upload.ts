@@ -1,26 +1,33 @@
-import { createHash } from "crypto";
 import appConfig from "../../services/config.ts";
-import blobStorage from "../../services/storage.ts";
+import blobStorage, {
+  BlobTooLargeError,
+  type TempBlob,
+} from "../../services/storage.ts";
 import {
   addCorsHeaders,
   handleCorsPreflightRequest,
   withCors,
 } from "../../utils/cors.ts";
-import { createAuthErrorResponse } from "../../utils/nostr.ts";
+import { createAuthErrorResponse, isValidSha256 } from "../../utils/nostr.ts";
 import {
   validateAuthorizationEarly,
   validateAuthorizationHash,
 } from "./auth.ts";
 import {
+  checkQuota,
+  checkUploadLimits,
   createBlobDescriptor,
   determineMimeType,
   generateFilename,
+  getPublicBaseUrl,
 } from "./utils.ts";
 
 /**
  * Handle PUT /upload - Upload blob with authorization
  */
 async function handleUpload(req: Request): Promise<Response> {
+  let blob: TempBlob | undefined;
+
   try {
     // STEP 1: Early authorization validation (before processing request body)
     // This prevents DoS attacks from users with invalid credentials
@@ -29,49 +36,76 @@ async function handleUpload(req: Request): Promise<Response> {
       return earlyAuthResult.response!;
     }
 
-    // STEP 2: Process request body now that we know the user is authorized
-    const arrayBuffer = await req.arrayBuffer();
-    const data = new Uint8Array(arrayBuffer);
+    // Get content type and check the declared length and type against the server limits
+    const contentType = req.headers.get("Content-Type") || undefined;
+    const mimeType = determineMimeType(undefined, contentType);
+    const contentLength = parseInt(req.headers.get("Content-Length") ?? "");
+    const limitsResponse = checkUploadLimits(
+      isNaN(contentLength) ? undefined : contentLength,
+      mimeType,
+    );
+    if (limitsResponse) return limitsResponse;
 
-    if (data.length === 0)
-      return createAuthErrorResponse("Empty request body", 400);
+    const earlyQuotaResponse = checkQuota(
+      earlyAuthResult.pubkey!,
+      isNaN(contentLength) ? undefined : contentLength,
+    );
+    if (earlyQuotaResponse) return earlyQuotaResponse;
 
-    // Check file size limits early
-    const maxFileSize = appConfig.get("maxFileSize");
-    if (maxFileSize && data.length > maxFileSize) {
-      return createAuthErrorResponse(
-        `File too large. Maximum size: ${maxFileSize} bytes`,
-        413,
+    if (!req.body) return createAuthErrorResponse("Empty request body", 400);
+
+    // STEP 2: Stream the request body to a temporary file now that we know the user is authorized
+    try {
+      blob = await blobStorage.writeTempBlob(
+        req.body,
+        appConfig.get("maxFileSize"),
       );
+    } catch (error) {
+      if (error instanceof BlobTooLargeError)
+        return createAuthErrorResponse(error.message, 413);
+      throw error;
     }
 
-    // Calculate hash of the uploaded data
-    const hash = createHash("sha256").update(data).digest("hex");
+    if (blob.size === 0)
+      return createAuthErrorResponse("Empty request body", 400);
 
     // STEP 3: Validate that the authorization contains the correct hash
-    if (!validateAuthorizationHash(earlyAuthResult.event!, "upload", [hash])) {
+    if (
+      !validateAuthorizationHash(earlyAuthResult.event!, "upload", [blob.hash])
+    ) {
       return createAuthErrorResponse(
         "Authorization hash does not match uploaded content",
         400,
       );
     }
 
-    // Get content type and determine filename
-    const contentType = req.headers.get("Content-Type") || undefined;
-    const mimeType = determineMimeType(undefined, contentType);
-    const filename = generateFilename(hash, contentType);
+    if (appConfig.isHashBlocked(blob.hash)) {
+      return createAuthErrorResponse("Blob is blocked", 403);
+    }
+
+    // Check the quota again now that the real size is known
+    const quotaResponse = checkQuota(
+      earlyAuthResult.pubkey!,
+      blob.size,
+      blob.hash,
+    );
+    if (quotaResponse) return quotaResponse;
+
+    // Determine filename
+    const filename = generateFilename(blob.hash, contentType);
 
-    // Store the blob
-    const { filePath } = await blobStorage.storeBlobForPubkey(
+    // Move the blob into place
+    await blobStorage.storeBlobForPubkey(
       earlyAuthResult.pubkey!,
       filename,
-      data,
+      blob,
     );
 
     // Create blob descriptor
     const blobDescriptor = createBlobDescriptor(
-      hash,
-      data.length,
+      getPublicBaseUrl(req),
+      blob.hash,
+      blob.size,
       mimeType,
       Math.floor(Date.now() / 1000),
       filename,
@@ -86,9 +120,62 @@ async function handleUpload(req: Request): Promise<Response> {
   } catch (error) {
     console.error("Error handling upload:", error);
     return createAuthErrorResponse("Internal server error", 500);
+  } finally {
+    // Clean up the temporary file if it was not stored
+    if (blob) await blobStorage.discardTempBlob(blob);
   }
 }
 
+/**
+ * Handle HEAD /upload - Check upload requirements without sending the body (BUD-06)
+ */
+async function handleUploadRequirements(req: Request): Promise<Response> {
+  const hash = req.headers.get("X-SHA-256");
+  if (!hash || !isValidSha256(hash)) {
+    return createAuthErrorResponse("Missing or invalid X-SHA-256 header", 400);
+  }
+
+  const lengthHeader = req.headers.get("X-Content-Length");
+  if (!lengthHeader) {
+    return createAuthErrorResponse("Missing X-Content-Length header", 411);
+  }
+  const contentLength = parseInt(lengthHeader);
+  if (isNaN(contentLength) || contentLength < 0) {
+    return createAuthErrorResponse("Invalid X-Content-Length header", 400);
+  }
+
+  const earlyAuthResult = await validateAuthorizationEarly(req, "upload");
+  if (!earlyAuthResult.success) {
+    return earlyAuthResult.response!;
+  }
+
+  if (!validateAuthorizationHash(earlyAuthResult.event!, "upload", [hash])) {
+    return createAuthErrorResponse(
+      "Authorization hash does not match X-SHA-256",
+      401,
+    );
+  }
+
+  // Run the same checks as PUT /upload in the same order, so the answer predicts the upload
+  // even for blobs the server already has
+  const contentType = req.headers.get("X-Content-Type") || undefined;
+  const mimeType = determineMimeType(undefined, contentType);
+  const limitsResponse = checkUploadLimits(contentLength, mimeType);
+  if (limitsResponse) return limitsResponse;
+
+  const quotaResponse = checkQuota(earlyAuthResult.pubkey!, contentLength);
+  if (quotaResponse) return quotaResponse;
+
+  if (appConfig.isHashBlocked(hash)) {
+    return createAuthErrorResponse("Blob is blocked", 403);
+  }
+
+  return new Response(null, {
+    status: 200,
+    headers: addCorsHeaders({}),
+  });
+}
+
 /**
  * Handle CORS preflight requests
  */
@@ -106,6 +193,7 @@ export async function handleUploadRoute(req: Request): Promise<Response> {
 export const uploadRoutes = {
   "/upload": {
     PUT: withCors(handleUploadRoute),
+    HEAD: withCors(handleUploadRequirements),
     OPTIONS: withCors(handleCorsOptions),
   },
 };
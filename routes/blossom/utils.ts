@@ -1,37 +1,92 @@
-import { createReadStream, existsSync, statSync } from "fs";
+import { statSync } from "fs";
 import mime from "mime";
-import { basename, extname, join } from "path";
+import { basename, extname } from "path";
 import { APP_HIDDEN_SERVICE } from "../../env.ts";
-import blobStorage from "../../services/storage.ts";
+import appConfig from "../../services/config.ts";
+import blobStorage, { type BlobReader } from "../../services/storage.ts";
+import { getClientUrl } from "../../utils/auth.ts";
 import {
   addCorsHeaders,
   createCorsErrorResponse,
   createCorsResponse,
 } from "../../utils/cors.ts";
+import { createAuthErrorResponse } from "../../utils/nostr.ts";
 import type { BlobDescriptor, BlobPathInfo, RangeInfo } from "./types.ts";
 
+/**
+ * Determine the base URL clients should use to fetch blobs
+ * The hidden service URL is only used for requests that arrived through tor,
+ * otherwise the configured public URL or the request's own origin is used
+ */
+export function getPublicBaseUrl(req: Request): string {
+  const clientUrl = getClientUrl(req);
+
+  if (APP_HIDDEN_SERVICE && clientUrl.hostname.endsWith(".onion"))
+    return APP_HIDDEN_SERVICE;
+
+  const publicUrl = appConfig.get("publicUrl");
+  if (publicUrl) return publicUrl.replace(/\/+$/, "");
+
+  return clientUrl.origin;
+}
+
 /**
  * Create a blob descriptor from file information
  */
 export function createBlobDescriptor(
+  baseUrl: string,
   hash: string,
   size: number,
   mimeType: string,
   uploaded: number,
   filename?: string,
 ): BlobDescriptor {
-  const baseUrl = APP_HIDDEN_SERVICE || "http://localhost:3000";
   const extension = filename ? extname(filename) : "";
+  const url = `${baseUrl}/${hash}${extension}`;
 
   return {
-    url: `${baseUrl}/${hash}${extension}`,
+    url,
     sha256: hash,
     size,
     type: mimeType,
     uploaded,
+    nip94: createNip94Tags(baseUrl, url, hash, size, mimeType),
   };
 }
 
+/**
+ * Create NIP-94 file metadata tags for a blob (BUD-08)
+ */
+export function createNip94Tags(
+  baseUrl: string,
+  url: string,
+  hash: string,
+  size: number,
+  mimeType: string,
+): string[][] {
+  const metadata = blobStorage.getBlobMetadata(hash);
+
+  const tags = [
+    ["url", url],
+    ["m", mimeType],
+    ["x", hash],
+    ["ox", metadata?.originalHash ?? hash],
+    ["size", size.toString()],
+  ];
+
+  if (metadata?.width && metadata?.height)
+    tags.push(["dim", `${metadata.width}x${metadata.height}`]);
+  if (metadata?.blurhash) tags.push(["blurhash", metadata.blurhash]);
+  if (metadata?.thumbHash && blobStorage.hasBlob(metadata.thumbHash))
+    tags.push([
+      "thumb",
+      `${baseUrl}/${metadata.thumbHash}.webp`,
+      metadata.thumbHash,
+    ]);
+
+  return tags;
+}
+
 /**
  * Determine MIME type from filename or content type header
  */
@@ -72,6 +127,65 @@ export function generateFilename(
   return `${hash}${extension}`;
 }
 
+/**
+ * Check the size and MIME type of an upload against the server limits
+ * Returns an error response if the upload should be rejected
+ */
+export function checkUploadLimits(
+  size: number | undefined,
+  mimeType: string,
+): Response | null {
+  const maxFileSize = appConfig.get("maxFileSize");
+  if (maxFileSize && size !== undefined && size > maxFileSize) {
+    return createAuthErrorResponse(
+      `File too large. Maximum size: ${maxFileSize} bytes`,
+      413,
+    );
+  }
+
+  if (!appConfig.isMimeTypeAllowed(mimeType)) {
+    return createAuthErrorResponse(
+      `Content type ${mimeType} is not allowed`,
+      415,
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Check that storing a blob would keep a pubkey within its storage quota
+ * Returns an error response if the upload should be rejected
+ */
+export function checkQuota(
+  pubkey: string,
+  size: number | undefined,
+  hash?: string,
+): Response | null {
+  const { maxBytes, maxBlobs } = appConfig.getQuota(pubkey);
+  if (!maxBytes && !maxBlobs) return null;
+
+  // Uploading a blob the pubkey already has doesn't use any more space
+  if (hash && blobStorage.getUploadersForHash(hash).includes(pubkey))
+    return null;
+
+  const usage = blobStorage.getUsageForPubkey(pubkey);
+  if (maxBlobs && usage.blobs + 1 > maxBlobs) {
+    return createAuthErrorResponse(
+      `Blob quota exceeded. Maximum blobs: ${maxBlobs}`,
+      413,
+    );
+  }
+  if (maxBytes && usage.bytes + (size ?? 0) > maxBytes) {
+    return createAuthErrorResponse(
+      `Storage quota exceeded. Using ${usage.bytes} of ${maxBytes} bytes`,
+      413,
+    );
+  }
+
+  return null;
+}
+
 /**
  * Parse SHA256 hash from URL path
  */
@@ -85,24 +199,6 @@ export function parseBlobPath(pathname: string): BlobPathInfo | null {
   };
 }
 
-/**
- * Find file path for a given SHA256 hash
- */
-export function findBlobByHash(hash: string): string | null {
-  const allHashes = blobStorage.getAllHashes();
-
-  for (const [relativePath, cacheEntry] of Object.entries(allHashes)) {
-    if (cacheEntry.hash === hash) {
-      const fullPath = join(blobStorage.getBlobDir(), relativePath);
-      if (existsSync(fullPath)) {
-        return fullPath;
-      }
-    }
-  }
-
-  return null;
-}
-
 /**
  * Determine MIME type for a file
  */
@@ -120,6 +216,15 @@ export function getMimeType(filePath: string, extension?: string): string {
   return mimeType;
 }
 
+/**
+ * Determine MIME type for an opened blob
+ * A known extension in the URL wins over the type recorded when the blob was stored
+ */
+export function getBlobMimeType(blob: BlobReader, extension?: string): string {
+  const extMimeType = extension ? mime.getType(`.${extension}`) : null;
+  return extMimeType ?? blob.type ?? getMimeType(blob.path ?? "");
+}
+
 /**
  * Parse Range header and validate range
  */
@@ -164,22 +269,21 @@ export function createBlobHeaders(
  * Handle range request and return partial content
  */
 export function handleRangeRequest(
-  filePath: string,
+  blob: BlobReader,
   range: RangeInfo,
   headers: Record<string, string>,
-  fileSize: number,
 ): Response {
   const { start, end } = range;
   const contentLength = end - start + 1;
 
   // Create a readable stream for the range
-  const stream = createReadStream(filePath, { start, end });
+  const stream = blob.stream(range);
 
-  return createCorsResponse(stream as any, {
+  return createCorsResponse(stream, {
     status: 206,
     headers: {
       ...headers,
-      "Content-Range": `bytes ${start}-${end}/${fileSize}`,
+      "Content-Range": `bytes ${start}-${end}/${blob.size}`,
       "Content-Length": contentLength.toString(),
     },
   });
@@ -1,10 +1,15 @@
+import CsrfInput from "../../../components/CsrfInput";
 import { UploadIcon } from "../../../components/icons";
 
 interface FileUploadProps {
   currentPath: string;
+  csrfToken: string;
 }
 
-export default function FileUpload({ currentPath }: FileUploadProps) {
+export default function FileUpload({
+  currentPath,
+  csrfToken,
+}: FileUploadProps) {
   return (
     <div class="mt-8 bg-base-100 border border-base-300 rounded-box p-6">
       <div class="flex items-center gap-3 mb-4">
@@ -21,12 +26,12 @@ export default function FileUpload({ currentPath }: FileUploadProps) {
       </div>
 
       <form
-        action="/api/upload"
+        action={`/api/upload?path=${encodeURIComponent(currentPath)}`}
         method="POST"
         enctype="multipart/form-data"
         class="space-y-4"
       >
-        <input type="hidden" name="path" value={currentPath} />
+        <CsrfInput token={csrfToken} />
 
         <div class="form-control">
           <label class="label">
@@ -1,12 +1,19 @@
 import type { RouterTypes } from "bun";
-import { existsSync } from "fs";
-import { mkdir, writeFile } from "fs/promises";
-import { join } from "path";
+import { isAbsolute, join, relative, sep } from "path";
 import Document from "../../components/Document";
 import { BackIcon, ErrorIcon, SettingsIcon } from "../../components/icons";
 import { APP_HIDDEN_SERVICE, BLOB_DIR } from "../../env";
 import appConfig from "../../services/config";
+import blobStorage, { BlobTooLargeError } from "../../services/storage";
+import { createAuthForbiddenResponse, withAdminAuth } from "../../utils/auth";
+import {
+  CSRF_FIELD,
+  getCsrfToken,
+  isValidCsrfToken,
+  withSameOrigin,
+} from "../../utils/csrf";
 import { getDirectoryContents, getParentPath } from "../../utils/fileSystem";
+import { parseMultipart, readMultipartField } from "../../utils/multipart";
 import Breadcrumb from "./components/Breadcrumb";
 import FileList from "./components/FileList";
 import FileUpload from "./components/FileUpload";
@@ -21,11 +28,18 @@ interface FileBrowserProps {
     size?: number;
     mtime?: number;
   }>;
+  csrfToken: string;
   error?: string;
   uploadError?: string;
 }
 
-function FileBrowser({ path, files, error, uploadError }: FileBrowserProps) {
+function FileBrowser({
+  path,
+  files,
+  csrfToken,
+  error,
+  uploadError,
+}: FileBrowserProps) {
   const parentPath = getParentPath(path);
   const hasParent = path !== "/" && path !== "";
 
@@ -120,7 +134,9 @@ function FileBrowser({ path, files, error, uploadError }: FileBrowserProps) {
         <FileList files={files} currentPath={path} />
       )}
 
-      {allowAnonymous && <FileUpload currentPath={path} />}
+      {allowAnonymous && (
+        <FileUpload currentPath={path} csrfToken={csrfToken} />
+      )}
     </div>
   );
 }
@@ -130,6 +146,7 @@ async function fileBrowser(req: Request): Promise<Response> {
   const requestedPath = searchParams.get("path") ?? "";
   const uploadError = searchParams.get("error");
   const normalizedPath = join("/", requestedPath);
+  const csrf = getCsrfToken(req);
 
   let files: Array<{
     name: string;
@@ -152,6 +169,7 @@ async function fileBrowser(req: Request): Promise<Response> {
         <FileBrowser
           path={normalizedPath}
           files={files}
+          csrfToken={csrf.token}
           error={error}
           uploadError={uploadError || undefined}
         />
@@ -160,84 +178,110 @@ async function fileBrowser(req: Request): Promise<Response> {
     {
       headers: {
         "Content-Type": "text/html; charset=utf-8",
+        ...(csrf.cookie ? { "Set-Cookie": csrf.cookie } : {}),
       },
     },
   );
 }
 
+/**
+ * Get an upload path relative to the blob directory
+ * Returns null for paths outside the blob directory or in the folders used by the storage service
+ */
+function getUploadPath(...segments: string[]): string | null {
+  const relativePath = relative(BLOB_DIR, join(BLOB_DIR, ...segments));
+  if (
+    relativePath === ".." ||
+    relativePath.startsWith(`..${sep}`) ||
+    isAbsolute(relativePath) ||
+    blobStorage.isInternalPath(relativePath)
+  )
+    return null;
+  return relativePath;
+}
+
+/**
+ * Handle file browser uploads, streaming each file to disk as it is received
+ */
 async function handleFileUpload(req: Request): Promise<Response> {
-  let path = "/";
-  try {
-    const formData = await req.formData();
-    path = (formData.get("path") as string) || "/";
+  const path = new URL(req.url).searchParams.get("path") || "/";
+  const redirectPath =
+    path === "/" ? "/" : `/?path=${encodeURIComponent(path)}`;
 
+  try {
     // Check if anonymous uploads are allowed
     const allowAnonymous = appConfig.get("allowAnonymous") || false;
-    if (!allowAnonymous) {
-      const redirectPath =
-        path === "/" ? "/" : `/?path=${encodeURIComponent(path)}`;
-      return new Response(null, {
-        status: 302,
-        headers: {
-          Location: `${redirectPath}${redirectPath.includes("?") ? "&" : "?"}error=${encodeURIComponent("Anonymous uploads are not allowed")}`,
-        },
-      });
-    }
-    const fileEntries = formData.getAll("files");
+    if (!allowAnonymous) throw new Error("Anonymous uploads are not allowed");
 
-    // Filter to ensure we only have File objects and cast them properly
-    const files: File[] = [];
-    for (const entry of fileEntries) {
-      if (entry instanceof File) {
-        files.push(entry);
-      }
-    }
+    // Reject uploads that are too large before reading the body
+    const maxFileSize = appConfig.get("maxFileSize");
+    const contentLength = parseInt(req.headers.get("Content-Length") ?? "");
+    if (maxFileSize && contentLength > maxFileSize)
+      throw new BlobTooLargeError(maxFileSize);
 
-    if (!files || files.length === 0) {
-      return new Response(JSON.stringify({ error: "No files provided" }), {
-        status: 400,
-        headers: { "Content-Type": "application/json" },
-      });
-    }
+    const uploadFolder = getUploadPath(path);
+    if (uploadFolder === null) throw new Error("Invalid upload path");
 
-    const uploadPath = join(BLOB_DIR, path === "/" ? "" : path);
+    let csrfToken: string | undefined;
+    let fileCount = 0;
+    const results = [];
 
-    // Ensure the upload directory exists
-    if (!existsSync(uploadPath)) {
-      await mkdir(uploadPath, { recursive: true });
-    }
+    for await (const part of parseMultipart(req)) {
+      if (part.filename === undefined) {
+        if (part.name === CSRF_FIELD)
+          csrfToken = await readMultipartField(part.body);
+        continue;
+      }
 
-    let uploadedCount = 0;
-    const results = [];
+      // The form puts the token before the files, so nothing is written for forged requests
+      if (!isValidCsrfToken(req, csrfToken))
+        return createAuthForbiddenResponse(
+          "Invalid CSRF token, reload the page and try again",
+        );
+
+      if (!part.filename) continue; // No file selected
+      fileCount++;
 
-    for (const file of files) {
-      if (file.size === 0) continue; // Skip empty files
+      // Names with path segments must not escape the upload folder
+      const filePath = getUploadPath(uploadFolder, part.filename);
+      if (!filePath) throw new Error(`Invalid file name: ${part.filename}`);
 
       try {
-        const filePath = join(uploadPath, file.name);
-        const arrayBuffer = await file.arrayBuffer();
-        const buffer = new Uint8Array(arrayBuffer);
+        const blob = await blobStorage.writeTempBlob(part.body, maxFileSize);
 
-        await writeFile(filePath, buffer);
-        uploadedCount++;
+        try {
+          // Skip empty files
+          if (blob.size > 0) await blobStorage.commitTempBlob(blob, filePath);
+        } finally {
+          await blobStorage.discardTempBlob(blob);
+        }
         results.push({
-          name: file.name,
-          size: file.size,
+          name: part.filename,
+          size: blob.size,
           success: true,
         });
       } catch (error) {
         results.push({
-          name: file.name,
-          size: file.size,
+          name: part.filename,
           success: false,
           error: error instanceof Error ? error.message : "Unknown error",
         });
       }
     }
 
+    if (!isValidCsrfToken(req, csrfToken))
+      return createAuthForbiddenResponse(
+        "Invalid CSRF token, reload the page and try again",
+      );
+
+    if (fileCount === 0) {
+      return new Response(JSON.stringify({ error: "No files provided" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Redirect back to the current directory after successful upload
-    const redirectPath =
-      path === "/" ? "/" : `/?path=${encodeURIComponent(path)}`;
     return new Response(null, {
       status: 302,
       headers: { Location: redirectPath },
@@ -245,8 +289,6 @@ async function handleFileUpload(req: Request): Promise<Response> {
   } catch (error) {
     // For errors, we could redirect to an error page or show a simple error message
     // For now, let's redirect back with an error parameter
-    const redirectPath =
-      path === "/" ? "/" : `/?path=${encodeURIComponent(path)}`;
     const errorMessage =
       error instanceof Error ? error.message : "Upload failed";
     return new Response(null, {
@@ -258,13 +300,28 @@ async function handleFileUpload(req: Request): Promise<Response> {
   }
 }
 
+/**
+ * Require an admin sign-in while listing or retrieving blobs requires authorization,
+ * since the file browser shows every folder with the hashes of the files
+ */
+function withPrivateBrowser(
+  handler: (req: Request) => Promise<Response> | Response,
+) {
+  const adminHandler = withAdminAuth()(handler);
+
+  return async (req: Request): Promise<Response> =>
+    appConfig.get("requireAuthToList") || appConfig.get("requireAuthToGet")
+      ? adminHandler(req)
+      : handler(req);
+}
+
 const routes: Record<
   string,
   RouterTypes.RouteHandler<any> | RouterTypes.RouteHandlerObject<any>
 > = {
-  "/": fileBrowser,
+  "/": withPrivateBrowser(fileBrowser),
   "/api/upload": {
-    POST: handleFileUpload,
+    POST: withPrivateBrowser(withSameOrigin()(handleFileUpload)),
   },
 };
 
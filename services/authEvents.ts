@@ -0,0 +1,41 @@
+import type { Database } from "bun:sqlite";
+import database from "./database.ts";
+
+/**
+ * Remembers single-use authorization events until they expire so they can't be replayed
+ */
+export class ConsumedEventsService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Mark an event as used until it would be rejected as expired anyway
+   * Returns false if the event was already used
+   */
+  consume(eventId: string, expiresAt: number): boolean {
+    const now = Math.floor(Date.now() / 1000);
+
+    return this.db.transaction(() => {
+      this.db
+        .query("DELETE FROM consumed_auth_events WHERE expires_at <= $now")
+        .run({ now });
+
+      const result = this.db
+        .query(
+          `INSERT OR IGNORE INTO consumed_auth_events (event_id, expires_at)
+           VALUES ($eventId, $expiresAt)`,
+        )
+        .run({ eventId, expiresAt });
+
+      return result.changes > 0;
+    })();
+  }
+}
+
+// Export a singleton instance
+const consumedAuthEvents = new ConsumedEventsService(database);
+
+export default consumedAuthEvents;
@@ -0,0 +1,62 @@
+import { existsSync } from "fs";
+import { chmod, mkdir, readdir, rename, rm, stat } from "fs/promises";
+import { basename, dirname, join } from "path";
+import type { BlobBackend, BlobStat, ByteRange } from "./types.ts";
+
+/** Store files are read-only so the files linked to them can't be edited in place */
+export const STORE_FILE_MODE = 0o444;
+
+/** Folder inside the blob directory for the content-addressed blob store */
+export const STORE_FOLDER = ".blobs";
+
+/**
+ * Stores blobs in a content-addressed folder on the local filesystem (.blobs/ab/cd/<sha256>)
+ */
+export class FilesystemBackend implements BlobBackend {
+  readonly name = "filesystem";
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  getLocalPath(hash: string): string {
+    return join(this.dir, hash.slice(0, 2), hash.slice(2, 4), hash);
+  }
+
+  async put(hash: string, filePath: string): Promise<void> {
+    const storePath = this.getLocalPath(hash);
+    if (existsSync(storePath)) return;
+
+    await mkdir(dirname(storePath), { recursive: true });
+    await rename(filePath, storePath);
+    await chmod(storePath, STORE_FILE_MODE);
+  }
+
+  get(hash: string, range?: ByteRange): ReadableStream<Uint8Array> {
+    const file = Bun.file(this.getLocalPath(hash));
+    return (range ? file.slice(range.start, range.end + 1) : file).stream();
+  }
+
+  async head(hash: string): Promise<BlobStat | null> {
+    try {
+      const stats = await stat(this.getLocalPath(hash));
+      return { size: stats.size, mtime: stats.mtime.getTime() };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(hash: string): Promise<void> {
+    await rm(this.getLocalPath(hash), { force: true });
+  }
+
+  async *list(): AsyncIterable<string> {
+    if (!existsSync(this.dir)) return;
+
+    for (const file of await readdir(this.dir, { recursive: true })) {
+      const hash = basename(file);
+      if (/^[a-f0-9]{64}$/.test(hash)) yield hash;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { join } from "path";
+import {
+  S3_ACCESS_KEY_ID,
+  S3_BUCKET,
+  S3_ENDPOINT,
+  S3_PREFIX,
+  S3_REGION,
+  S3_SECRET_ACCESS_KEY,
+  STORAGE_BACKEND,
+} from "../../env.ts";
+import { FilesystemBackend, STORE_FOLDER } from "./filesystem.ts";
+import { S3Backend } from "./s3.ts";
+import type { BlobBackend } from "./types.ts";
+
+export { STORE_FILE_MODE, STORE_FOLDER } from "./filesystem.ts";
+export type { BlobBackend, BlobStat, ByteRange } from "./types.ts";
+
+/**
+ * Create the blob backend selected by the STORAGE_BACKEND environment variable
+ */
+export function createBlobBackend(blobDir: string): BlobBackend {
+  switch (STORAGE_BACKEND) {
+    case "filesystem":
+      return new FilesystemBackend(join(blobDir, STORE_FOLDER));
+    case "s3":
+      if (!S3_BUCKET)
+        throw new Error("S3_BUCKET is required for the s3 storage backend");
+
+      return new S3Backend(
+        {
+          endpoint: S3_ENDPOINT,
+          bucket: S3_BUCKET,
+          region: S3_REGION,
+          accessKeyId: S3_ACCESS_KEY_ID,
+          secretAccessKey: S3_SECRET_ACCESS_KEY,
+        },
+        S3_PREFIX,
+      );
+    default:
+      throw new Error(`Unknown storage backend: ${STORAGE_BACKEND}`);
+  }
+}
@@ -0,0 +1,105 @@
+import { S3Client, type S3Options } from "bun";
+import type { BlobBackend, BlobStat, ByteRange } from "./types.ts";
+
+/** Key prefix of deleted blobs, inside the backend's prefix */
+const TRASH_PREFIX = "trash/";
+
+/**
+ * Stores blobs in an S3-compatible bucket, keyed by their hash
+ */
+export class S3Backend implements BlobBackend {
+  readonly name = "s3";
+  private client: S3Client;
+  private prefix: string;
+
+  constructor(options: S3Options, prefix = "") {
+    this.client = new S3Client(options);
+    this.prefix = prefix;
+  }
+
+  /**
+   * Get the object key of a blob
+   */
+  private getKey(hash: string): string {
+    return this.prefix + hash;
+  }
+
+  /**
+   * Get the object key of a blob in the trash
+   */
+  private getTrashKey(hash: string): string {
+    return this.prefix + TRASH_PREFIX + hash;
+  }
+
+  /**
+   * Move an object to another key
+   * S3 has no rename, so the object is streamed to the new key and then deleted
+   * Returns false if the object doesn't exist
+   */
+  private async move(from: string, to: string): Promise<boolean> {
+    const source = this.client.file(from);
+    if (!(await source.exists())) return false;
+
+    await this.client
+      .file(to)
+      .write(source, { type: "application/octet-stream" });
+    await this.client.delete(from);
+    return true;
+  }
+
+  async put(hash: string, filePath: string): Promise<void> {
+    const file = this.client.file(this.getKey(hash));
+    if (await file.exists()) return;
+
+    await file.write(Bun.file(filePath), { type: "application/octet-stream" });
+  }
+
+  get(hash: string, range?: ByteRange): ReadableStream<Uint8Array> {
+    const file = this.client.file(this.getKey(hash));
+    return (range ? file.slice(range.start, range.end + 1) : file).stream();
+  }
+
+  async head(hash: string): Promise<BlobStat | null> {
+    const file = this.client.file(this.getKey(hash));
+    if (!(await file.exists())) return null;
+
+    const stats = await file.stat();
+    return { size: stats.size, mtime: stats.lastModified.getTime() };
+  }
+
+  async delete(hash: string): Promise<void> {
+    await this.client.delete(this.getKey(hash));
+  }
+
+  async trash(hash: string): Promise<void> {
+    await this.move(this.getKey(hash), this.getTrashKey(hash));
+  }
+
+  async restore(hash: string): Promise<boolean> {
+    return this.move(this.getTrashKey(hash), this.getKey(hash));
+  }
+
+  async purge(hash: string): Promise<void> {
+    await this.client.delete(this.getTrashKey(hash));
+  }
+
+  async *list(): AsyncIterable<string> {
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.client.list({
+        prefix: this.prefix || undefined,
+        continuationToken,
+      });
+
+      for (const { key } of page.contents ?? []) {
+        const hash = key.slice(this.prefix.length);
+        if (/^[a-f0-9]{64}$/.test(hash)) yield hash;
+      }
+
+      continuationToken = page.isTruncated
+        ? page.nextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
+}
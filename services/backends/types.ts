@@ -0,0 +1,62 @@
+/** Inclusive byte range of a blob */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/** Size and modification time of a stored blob */
+export interface BlobStat {
+  size: number;
+  /** Modification time in milliseconds */
+  mtime: number;
+}
+
+/**
+ * Storage for blob content, addressed by SHA256 hash
+ */
+export interface BlobBackend {
+  /** Name of the backend shown in logs */
+  readonly name: string;
+
+  /**
+   * Store the content of a local file under its hash
+   * The file may be moved into the backend, blobs that are already stored are left as they are
+   */
+  put(hash: string, filePath: string): Promise<void>;
+
+  /**
+   * Stream the content of a blob, or only a byte range of it
+   * The stream errors if the blob doesn't exist
+   */
+  get(hash: string, range?: ByteRange): ReadableStream<Uint8Array>;
+
+  /** Get the size and modification time of a blob, or null if it isn't stored */
+  head(hash: string): Promise<BlobStat | null>;
+
+  /** Delete a blob, does nothing if it isn't stored */
+  delete(hash: string): Promise<void>;
+
+  /** List the hashes of all stored blobs */
+  list(): AsyncIterable<string>;
+
+  /**
+   * Move a blob into the backend's own trash, does nothing if it isn't stored
+   * Only implemented by remote backends, so deleted blobs don't have to be downloaded into the trash folder
+   */
+  trash?(hash: string): Promise<void>;
+
+  /**
+   * Move a blob out of the backend's trash
+   * Returns false if the blob isn't in the trash
+   */
+  restore?(hash: string): Promise<boolean>;
+
+  /** Permanently delete a blob in the backend's trash, does nothing if it isn't there */
+  purge?(hash: string): Promise<void>;
+
+  /**
+   * Get the path of a blob on the local filesystem
+   * Only implemented by backends that store blobs locally, which lets them be hardlinked
+   */
+  getLocalPath?(hash: string): string;
+}
@@ -1,23 +1,211 @@
 import { readFile, writeFile, mkdir } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
-import { CONFIG_DIR } from "../env.ts";
+import { APP_HIDDEN_SERVICE, CONFIG_DIR } from "../env.ts";
+import type { BlossomAuthType } from "../utils/nostr.ts";
+
+/** Roles that can be given to whitelisted pubkeys, from least to most access */
+export const WHITELIST_ROLES = ["list", "upload", "delete", "admin"] as const;
+
+export type WhitelistRole = (typeof WHITELIST_ROLES)[number];
+
+/** Blossom actions allowed for each role */
+const ROLE_PERMISSIONS: Record<WhitelistRole, BlossomAuthType[]> = {
+  list: ["get", "list"],
+  upload: ["get", "list", "upload", "media"],
+  delete: ["get", "list", "upload", "media", "delete"],
+  admin: ["get", "list", "upload", "media", "delete"],
+};
+
+/** Role given to any pubkey when anonymous uploads are allowed */
+const ANONYMOUS_ROLE: WhitelistRole = "upload";
+
+export type WhitelistEntry = {
+  pubkey: string;
+  role: WhitelistRole;
+  /** Optional name to recognize the pubkey by in the admin dashboard */
+  label?: string;
+};
+
+export type StorageQuota = {
+  /** Maximum total size of a pubkey's blobs (in bytes), unlimited when unset */
+  maxBytes?: number;
+  /** Maximum number of blobs a pubkey can store, unlimited when unset */
+  maxBlobs?: number;
+};
+
+export type RetentionPolicy = {
+  /** Whether the retention job deletes expired blobs, otherwise they are only reported */
+  enabled?: boolean;
+  /** Maximum age (in seconds) of blobs */
+  maxAge?: number;
+  /** Maximum total size (in bytes) of a pubkey's blobs, the oldest blobs expire first */
+  maxBytes?: number;
+  /** Number of most recent blobs kept for each pubkey, older blobs expire */
+  keepLast?: number;
+  /** Maximum age (in seconds) of blobs uploaded by pubkeys that aren't whitelisted */
+  anonymousMaxAge?: number;
+};
+
+export type ScrubSettings = {
+  /** Whether files in the blob directory are re-hashed in the background */
+  enabled: boolean;
+  /** How often (in seconds) each file is re-hashed */
+  interval: number;
+  /** Whether corrupt files are moved to the quarantine folder */
+  quarantine: boolean;
+};
 
 export type AppConfig = {
-  /** Whitelist of pubkeys to allow uploads from */
-  whitelist: string[];
+  /** Whitelisted pubkeys and the actions they are allowed to perform */
+  whitelist: WhitelistEntry[];
   /** Maximum file size allowed for uploads (in bytes) */
   maxFileSize?: number;
   /** Whether to allow anonymous uploads */
   allowAnonymous?: boolean;
+  /** MIME types allowed for uploads, supports wildcards like "image/*" (empty allows all) */
+  allowedMimeTypes?: string[];
+  /** Output format for images optimized by the /media endpoint */
+  mediaFormat?: "webp" | "jpeg";
+  /** Maximum width or height (in pixels) of images optimized by the /media endpoint */
+  mediaMaxDimension?: number;
+  /** Maximum age (in seconds) of an authorization event's created_at */
+  authMaxAge?: number;
+  /** How far (in seconds) an authorization event's created_at may be in the future */
+  authMaxFutureSkew?: number;
+  /** Whether authorization events must have an expiration tag */
+  requireAuthExpiration?: boolean;
+  /** Whether listing blobs requires a list authorization event from the pubkey or an admin */
+  requireAuthToList?: boolean;
+  /** Whether retrieving blobs requires a get authorization event */
+  requireAuthToGet?: boolean;
+  /** Public base URL used in blob descriptors, derived from the request when unset */
+  publicUrl?: string;
+  /** Additional domains this server is reachable at, accepted in auth event server tags */
+  serverDomains: string[];
+  /** Quota applied to pubkeys without their own quota */
+  defaultQuota: StorageQuota;
+  /** Quotas for individual pubkeys, overriding the default quota */
+  quotas: Record<string, StorageQuota>;
+  /** Rules for expiring uploaded blobs */
+  retention: RetentionPolicy;
+  /** How long (in seconds) deleted blobs stay in the trash before they are purged */
+  trashPurgeDelay?: number;
+  /** Settings for the background job that verifies the hashes of stored files */
+  scrub: ScrubSettings;
+  /** Whether blobs are verified against their hash the first time they are served after a change */
+  verifyOnServe?: boolean;
+  /** Gitignore-style patterns for files the scanner skips, in addition to the .blobignore file */
+  ignorePatterns: string[];
+  /** Blob hashes that can not be uploaded */
+  blockedHashes: string[];
+  /** Pubkeys that are denied access even when anonymous uploads are allowed */
+  blockedPubkeys: string[];
 };
 
 const DEFAULT_CONFIG: AppConfig = {
   whitelist: [],
   maxFileSize: 100 * 1024 * 1024, // 100MB default
   allowAnonymous: false,
+  allowedMimeTypes: [],
+  mediaFormat: "webp",
+  mediaMaxDimension: 2048,
+  authMaxAge: 60 * 60,
+  authMaxFutureSkew: 5 * 60,
+  requireAuthExpiration: true,
+  requireAuthToList: false,
+  requireAuthToGet: false,
+  serverDomains: [],
+  defaultQuota: {},
+  quotas: {},
+  retention: {},
+  trashPurgeDelay: 30 * 24 * 60 * 60,
+  scrub: { enabled: true, interval: 30 * 24 * 60 * 60, quarantine: false },
+  verifyOnServe: false,
+  // macOS metadata, partial downloads, Syncthing's temporary files and hidden folders
+  ignorePatterns: [
+    ".DS_Store",
+    "*.part",
+    "*.crdownload",
+    ".syncthing.*",
+    "~syncthing~*",
+    ".*/",
+  ],
+  blockedHashes: [],
+  blockedPubkeys: [],
 };
 
+/**
+ * Check if a value is an absolute http(s) URL
+ */
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== "string") return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check if a value is a whitelist entry with a known role
+ */
+function isValidWhitelistEntry(entry: unknown): entry is WhitelistEntry {
+  if (!entry || typeof entry !== "object") return false;
+
+  const { pubkey, role, label } = entry as WhitelistEntry;
+  return (
+    typeof pubkey === "string" &&
+    WHITELIST_ROLES.includes(role) &&
+    (label === undefined || typeof label === "string")
+  );
+}
+
+/**
+ * Check if a value is a quota with positive limits
+ */
+function isValidQuota(quota: unknown): quota is StorageQuota {
+  if (!quota || typeof quota !== "object" || Array.isArray(quota)) return false;
+
+  const { maxBytes, maxBlobs } = quota as StorageQuota;
+  return [maxBytes, maxBlobs].every(
+    (limit) => limit === undefined || (typeof limit === "number" && limit > 0),
+  );
+}
+
+/**
+ * Check if a value is a retention policy with positive limits
+ */
+function isValidRetentionPolicy(policy: unknown): policy is RetentionPolicy {
+  if (!policy || typeof policy !== "object" || Array.isArray(policy))
+    return false;
+
+  const { enabled, maxAge, maxBytes, keepLast, anonymousMaxAge } =
+    policy as RetentionPolicy;
+  return (
+    (enabled === undefined || typeof enabled === "boolean") &&
+    [maxAge, maxBytes, keepLast, anonymousMaxAge].every(
+      (limit) =>
+        limit === undefined || (typeof limit === "number" && limit > 0),
+    )
+  );
+}
+
+/**
+ * Check if a value is a valid set of scrub settings, missing settings use their defaults
+ */
+function isValidScrubSettings(scrub: unknown): scrub is Partial<ScrubSettings> {
+  if (!scrub || typeof scrub !== "object" || Array.isArray(scrub)) return false;
+
+  const { enabled, interval, quarantine } = scrub as Partial<ScrubSettings>;
+  return (
+    (enabled === undefined || typeof enabled === "boolean") &&
+    (quarantine === undefined || typeof quarantine === "boolean") &&
+    (interval === undefined || (typeof interval === "number" && interval > 0))
+  );
+}
+
 export class ConfigService {
   private config: AppConfig;
   private configFile: string;
@@ -70,8 +258,13 @@ export class ConfigService {
         ...loadedConfig,
       };
 
+      // Upgrade config files from older versions before validating
+      const migrated = this.migrateConfig();
+
       // Validate the loaded config
       this.validateConfig();
+
+      if (migrated) await this.saveConfig();
     } catch (error) {
       console.error("Error loading config file:", error);
       console.info("Using default configuration");
@@ -89,15 +282,95 @@ export class ConfigService {
     await this.saveConfig();
   }
 
+  /**
+   * Upgrade config values written by older versions
+   * Returns true if anything was changed
+   */
+  private migrateConfig(): boolean {
+    const whitelist = this.config.whitelist as unknown[];
+    if (
+      !Array.isArray(whitelist) ||
+      !whitelist.some((entry) => typeof entry === "string")
+    )
+      return false;
+
+    // Plain pubkey whitelists allowed both uploading and deleting
+    this.config.whitelist = whitelist.map((entry) =>
+      typeof entry === "string"
+        ? { pubkey: entry, role: "delete" }
+        : (entry as WhitelistEntry),
+    );
+    console.info("Migrated whitelist to role based entries");
+    return true;
+  }
+
   /**
    * Validate configuration values
    */
   private validateConfig(): void {
-    // Ensure whitelist is an array
+    // Ensure whitelist is an array of valid entries
     if (!Array.isArray(this.config.whitelist)) {
       console.warn("Invalid whitelist format, resetting to empty array");
       this.config.whitelist = [];
     }
+    const whitelist = this.config.whitelist as unknown[];
+    if (!whitelist.every(isValidWhitelistEntry)) {
+      console.warn("Removing invalid whitelist entries");
+      this.config.whitelist = whitelist.filter(isValidWhitelistEntry);
+    }
+
+    // Ensure blocklists are arrays
+    if (!Array.isArray(this.config.blockedHashes)) {
+      console.warn("Invalid blockedHashes format, resetting to empty array");
+      this.config.blockedHashes = [];
+    }
+    if (!Array.isArray(this.config.blockedPubkeys)) {
+      console.warn("Invalid blockedPubkeys format, resetting to empty array");
+      this.config.blockedPubkeys = [];
+    }
+
+    // Ensure quotas only contain valid limits
+    if (!isValidQuota(this.config.defaultQuota)) {
+      console.warn("Invalid defaultQuota, removing limits");
+      this.config.defaultQuota = DEFAULT_CONFIG.defaultQuota;
+    }
+    if (
+      !this.config.quotas ||
+      typeof this.config.quotas !== "object" ||
+      Array.isArray(this.config.quotas)
+    ) {
+      console.warn("Invalid quotas format, resetting to empty object");
+      this.config.quotas = {};
+    }
+    for (const [pubkey, quota] of Object.entries(this.config.quotas)) {
+      if (!isValidQuota(quota)) {
+        console.warn(`Invalid quota for ${pubkey}, using default quota`);
+        delete this.config.quotas[pubkey];
+      }
+    }
+
+    // Ensure the retention policy only contains valid limits
+    if (!isValidRetentionPolicy(this.config.retention)) {
+      console.warn("Invalid retention policy, disabling retention");
+      this.config.retention = DEFAULT_CONFIG.retention;
+    }
+
+    // Ensure the scrub settings are valid
+    if (!isValidScrubSettings(this.config.scrub)) {
+      console.warn("Invalid scrub settings, using defaults");
+      this.config.scrub = DEFAULT_CONFIG.scrub;
+    }
+    this.config.scrub = { ...DEFAULT_CONFIG.scrub, ...this.config.scrub };
+
+    // Ensure trashPurgeDelay is a non-negative number if provided
+    if (
+      this.config.trashPurgeDelay !== undefined &&
+      (typeof this.config.trashPurgeDelay !== "number" ||
+        this.config.trashPurgeDelay < 0)
+    ) {
+      console.warn("Invalid trashPurgeDelay, using default");
+      this.config.trashPurgeDelay = DEFAULT_CONFIG.trashPurgeDelay;
+    }
 
     // Ensure maxFileSize is a positive number if provided
     if (
@@ -117,6 +390,105 @@ export class ConfigService {
       console.warn("Invalid allowAnonymous value, using default");
       this.config.allowAnonymous = DEFAULT_CONFIG.allowAnonymous;
     }
+
+    // Ensure allowedMimeTypes is an array of strings if provided
+    if (
+      this.config.allowedMimeTypes !== undefined &&
+      (!Array.isArray(this.config.allowedMimeTypes) ||
+        !this.config.allowedMimeTypes.every((t) => typeof t === "string"))
+    ) {
+      console.warn("Invalid allowedMimeTypes, allowing all types");
+      this.config.allowedMimeTypes = DEFAULT_CONFIG.allowedMimeTypes;
+    }
+
+    // Ensure mediaFormat is a supported format if provided
+    if (
+      this.config.mediaFormat !== undefined &&
+      this.config.mediaFormat !== "webp" &&
+      this.config.mediaFormat !== "jpeg"
+    ) {
+      console.warn("Invalid mediaFormat, using default");
+      this.config.mediaFormat = DEFAULT_CONFIG.mediaFormat;
+    }
+
+    // Ensure mediaMaxDimension is a positive number if provided
+    if (
+      this.config.mediaMaxDimension !== undefined &&
+      (typeof this.config.mediaMaxDimension !== "number" ||
+        this.config.mediaMaxDimension <= 0)
+    ) {
+      console.warn("Invalid mediaMaxDimension, using default");
+      this.config.mediaMaxDimension = DEFAULT_CONFIG.mediaMaxDimension;
+    }
+
+    // Ensure the authorization time limits are positive numbers if provided
+    if (
+      this.config.authMaxAge !== undefined &&
+      (typeof this.config.authMaxAge !== "number" ||
+        this.config.authMaxAge <= 0)
+    ) {
+      console.warn("Invalid authMaxAge, using default");
+      this.config.authMaxAge = DEFAULT_CONFIG.authMaxAge;
+    }
+    if (
+      this.config.authMaxFutureSkew !== undefined &&
+      (typeof this.config.authMaxFutureSkew !== "number" ||
+        this.config.authMaxFutureSkew < 0)
+    ) {
+      console.warn("Invalid authMaxFutureSkew, using default");
+      this.config.authMaxFutureSkew = DEFAULT_CONFIG.authMaxFutureSkew;
+    }
+
+    // Ensure requireAuthExpiration is a boolean if provided
+    if (
+      this.config.requireAuthExpiration !== undefined &&
+      typeof this.config.requireAuthExpiration !== "boolean"
+    ) {
+      console.warn("Invalid requireAuthExpiration value, using default");
+      this.config.requireAuthExpiration = DEFAULT_CONFIG.requireAuthExpiration;
+    }
+
+    // Ensure the remaining flags are booleans if provided
+    for (const key of [
+      "requireAuthToList",
+      "requireAuthToGet",
+      "verifyOnServe",
+    ] as const) {
+      if (
+        this.config[key] !== undefined &&
+        typeof this.config[key] !== "boolean"
+      ) {
+        console.warn(`Invalid ${key} value, using default`);
+        this.config[key] = DEFAULT_CONFIG[key];
+      }
+    }
+
+    // Ensure serverDomains is an array of strings
+    if (
+      !Array.isArray(this.config.serverDomains) ||
+      !this.config.serverDomains.every((d) => typeof d === "string")
+    ) {
+      console.warn("Invalid serverDomains, resetting to empty array");
+      this.config.serverDomains = [];
+    }
+
+    // Ensure ignorePatterns is an array of strings
+    if (
+      !Array.isArray(this.config.ignorePatterns) ||
+      !this.config.ignorePatterns.every((p) => typeof p === "string")
+    ) {
+      console.warn("Invalid ignorePatterns, using defaults");
+      this.config.ignorePatterns = DEFAULT_CONFIG.ignorePatterns;
+    }
+
+    // Ensure publicUrl is a valid http(s) URL if provided
+    if (
+      this.config.publicUrl !== undefined &&
+      !isHttpUrl(this.config.publicUrl)
+    ) {
+      console.warn("Invalid publicUrl, deriving it from requests");
+      this.config.publicUrl = undefined;
+    }
   }
 
   /**
@@ -179,34 +551,135 @@ export class ConfigService {
   }
 
   /**
-   * Add a pubkey to the whitelist
+   * Add a pubkey to the whitelist, or update its role and label if it's already whitelisted
    */
-  async addToWhitelist(pubkey: string): Promise<void> {
-    if (!this.config.whitelist.includes(pubkey)) {
-      const newWhitelist = [...this.config.whitelist, pubkey];
-      await this.updateConfig({ whitelist: newWhitelist });
-    }
+  async addToWhitelist(
+    pubkey: string,
+    role: WhitelistRole,
+    label?: string,
+  ): Promise<void> {
+    const entry: WhitelistEntry = { pubkey, role, label };
+    const exists = this.config.whitelist.some((e) => e.pubkey === pubkey);
+    const newWhitelist = exists
+      ? this.config.whitelist.map((e) => (e.pubkey === pubkey ? entry : e))
+      : [...this.config.whitelist, entry];
+    await this.updateConfig({ whitelist: newWhitelist });
   }
 
   /**
    * Remove a pubkey from the whitelist
    */
   async removeFromWhitelist(pubkey: string): Promise<void> {
-    const newWhitelist = this.config.whitelist.filter((key) => key !== pubkey);
+    const newWhitelist = this.config.whitelist.filter(
+      (entry) => entry.pubkey !== pubkey,
+    );
     if (newWhitelist.length !== this.config.whitelist.length) {
       await this.updateConfig({ whitelist: newWhitelist });
     }
   }
 
+  /**
+   * Get the storage quota that applies to a pubkey
+   */
+  getQuota(pubkey: string): StorageQuota {
+    return this.config.quotas[pubkey] ?? this.config.defaultQuota;
+  }
+
+  /**
+   * Set the storage quota for a pubkey, or remove it to use the default quota
+   */
+  async setQuota(pubkey: string, quota?: StorageQuota): Promise<void> {
+    const { [pubkey]: _, ...quotas } = this.config.quotas;
+    await this.updateConfig({
+      quotas: quota ? { ...quotas, [pubkey]: quota } : quotas,
+    });
+  }
+
+  /**
+   * Add blob hashes and pubkeys to the blocklist
+   */
+  async addToBlocklist(hashes: string[], pubkeys: string[]): Promise<void> {
+    await this.updateConfig({
+      blockedHashes: Array.from(
+        new Set([...this.config.blockedHashes, ...hashes]),
+      ),
+      blockedPubkeys: Array.from(
+        new Set([...this.config.blockedPubkeys, ...pubkeys]),
+      ),
+    });
+  }
+
+  /**
+   * Remove a blob hash or pubkey from the blocklist
+   */
+  async removeFromBlocklist(value: string): Promise<void> {
+    await this.updateConfig({
+      blockedHashes: this.config.blockedHashes.filter((h) => h !== value),
+      blockedPubkeys: this.config.blockedPubkeys.filter((p) => p !== value),
+    });
+  }
+
+  /**
+   * Check if a pubkey is blocked
+   */
+  isPubkeyBlocked(pubkey: string): boolean {
+    return this.config.blockedPubkeys.includes(pubkey);
+  }
+
+  /**
+   * Check if a blob hash is blocked
+   */
+  isHashBlocked(hash: string): boolean {
+    return this.config.blockedHashes.includes(hash);
+  }
+
+  /**
+   * Get the role of a pubkey, or undefined if it has no access
+   */
+  getRole(pubkey: string): WhitelistRole | undefined {
+    if (this.isPubkeyBlocked(pubkey)) return undefined;
+
+    const entry = this.config.whitelist.find((e) => e.pubkey === pubkey);
+    if (entry) return entry.role;
+
+    // Allow any pubkey to upload if anonymous uploads are enabled
+    if (this.config.allowAnonymous) return ANONYMOUS_ROLE;
+
+    return undefined;
+  }
+
+  /**
+   * Check if a pubkey has its own whitelist entry, rather than access through anonymous uploads
+   */
+  hasWhitelistEntry(pubkey: string): boolean {
+    return this.config.whitelist.some((e) => e.pubkey === pubkey);
+  }
+
   /**
    * Check if a pubkey is whitelisted
    */
   isWhitelisted(pubkey: string): boolean {
-    // Allow any pubkey if anonymous uploads are enabled
-    if (this.config.allowAnonymous) {
-      return true;
+    return this.getRole(pubkey) !== undefined;
+  }
+
+  /**
+   * Check if a pubkey's role allows a Blossom action
+   */
+  hasPermission(pubkey: string, action: BlossomAuthType): boolean {
+    const role = this.getRole(pubkey);
+    return role !== undefined && ROLE_PERMISSIONS[role].includes(action);
+  }
+
+  /**
+   * Get the domains this server is known to be reachable at
+   * Includes the public URL, the tor hidden service and any additional server domains
+   */
+  getServerDomains(): string[] {
+    const domains = this.config.serverDomains.map((d) => d.toLowerCase());
+    for (const url of [this.config.publicUrl, APP_HIDDEN_SERVICE]) {
+      if (url) domains.push(new URL(url).hostname.toLowerCase());
     }
-    return this.config.whitelist.includes(pubkey);
+    return Array.from(new Set(domains));
   }
 
   /**
@@ -216,6 +689,22 @@ export class ConfigService {
     return this.config.allowAnonymous === true;
   }
 
+  /**
+   * Check if a MIME type is allowed for uploads
+   */
+  isMimeTypeAllowed(mimeType: string): boolean {
+    const allowed = this.config.allowedMimeTypes;
+    if (!allowed || allowed.length === 0) return true;
+
+    const type = mimeType.split(";")[0]!.trim().toLowerCase();
+    return allowed.some((pattern) => {
+      const normalized = pattern.trim().toLowerCase();
+      if (normalized.endsWith("/*"))
+        return type.startsWith(normalized.slice(0, -1));
+      return type === normalized;
+    });
+  }
+
   /**
    * Reset configuration to defaults
    */
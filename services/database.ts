@@ -0,0 +1,159 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { join } from "path";
+import { CONFIG_DIR } from "../env.ts";
+
+/**
+ * Schema migrations, applied in order. The number of applied migrations is
+ * tracked in the database's `user_version` pragma
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE files (
+    path TEXT PRIMARY KEY,
+    hash TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    mtime INTEGER NOT NULL,
+    uploader TEXT
+  );
+  CREATE INDEX files_hash ON files (hash);
+  CREATE INDEX files_uploader ON files (uploader);
+  `,
+  `
+  CREATE TABLE blob_metadata (
+    hash TEXT PRIMARY KEY,
+    width INTEGER,
+    height INTEGER,
+    blurhash TEXT,
+    original_hash TEXT
+  );
+  `,
+  `
+  CREATE TABLE reports (
+    event_id TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    reporter TEXT NOT NULL,
+    type TEXT,
+    content TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    PRIMARY KEY (event_id, hash)
+  );
+  CREATE INDEX reports_status ON reports (status);
+  `,
+  `
+  CREATE TABLE admin_sessions (
+    token_hash TEXT PRIMARY KEY,
+    pubkey TEXT,
+    expires_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE consumed_auth_events (
+    event_id TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE blob_owners (
+    hash TEXT NOT NULL,
+    pubkey TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    PRIMARY KEY (hash, pubkey)
+  );
+  CREATE INDEX blob_owners_pubkey ON blob_owners (pubkey);
+  INSERT INTO blob_owners (hash, pubkey, created_at)
+    SELECT hash, uploader, MIN(mtime) / 1000 FROM files
+    WHERE uploader IS NOT NULL
+    GROUP BY hash, uploader;
+  `,
+  `
+  CREATE TABLE stored_blobs (
+    hash TEXT PRIMARY KEY,
+    size INTEGER NOT NULL,
+    type TEXT,
+    created_at INTEGER NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE trash (
+    hash TEXT PRIMARY KEY,
+    size INTEGER NOT NULL,
+    type TEXT,
+    stored INTEGER NOT NULL,
+    paths TEXT NOT NULL,
+    owners TEXT NOT NULL,
+    deleted_by TEXT NOT NULL,
+    deleted_at INTEGER NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE files ADD COLUMN verified_at INTEGER NOT NULL DEFAULT 0;
+  CREATE INDEX files_verified_at ON files (verified_at);
+  CREATE TABLE corrupt_files (
+    path TEXT PRIMARY KEY,
+    expected_hash TEXT NOT NULL,
+    actual_hash TEXT NOT NULL,
+    quarantined INTEGER NOT NULL,
+    detected_at INTEGER NOT NULL
+  );
+  CREATE TABLE scrub_runs (
+    finished_at INTEGER NOT NULL,
+    checked INTEGER NOT NULL,
+    corrupt INTEGER NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE blob_metadata ADD COLUMN thumb_hash TEXT;
+  `,
+  `
+  ALTER TABLE stored_blobs ADD COLUMN written INTEGER NOT NULL DEFAULT 0;
+  `,
+];
+
+/**
+ * Bring the database schema up to date
+ */
+function migrate(db: Database): void {
+  const { user_version: version } = db
+    .query<{ user_version: number }, []>("PRAGMA user_version")
+    .get()!;
+
+  if (version >= MIGRATIONS.length) return;
+
+  db.transaction(() => {
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      db.exec(MIGRATIONS[i]!);
+    }
+    db.exec(`PRAGMA user_version = ${MIGRATIONS.length}`);
+  })();
+
+  console.info(
+    `Migrated database from version ${version} to ${MIGRATIONS.length}`,
+  );
+}
+
+/**
+ * Open (or create) the SQLite database in a directory and apply migrations
+ */
+export function openDatabase(dir: string): Database {
+  mkdirSync(dir, { recursive: true });
+
+  const db = new Database(join(dir, "blob-box.sqlite"), {
+    create: true,
+    strict: true,
+  });
+
+  // WAL keeps readers unblocked during writes and survives crashes mid-write
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec("PRAGMA synchronous = NORMAL");
+
+  migrate(db);
+
+  return db;
+}
+
+// Export a singleton instance
+const database = openDatabase(CONFIG_DIR);
+
+export default database;
@@ -0,0 +1,101 @@
+import type { Database } from "bun:sqlite";
+import type { NostrEvent } from "../utils/nostr.ts";
+import database from "./database.ts";
+
+export type ReportStatus = "open" | "dismissed" | "resolved";
+
+export interface BlobReport {
+  eventId: string;
+  hash: string;
+  reporter: string;
+  /** NIP-56 report type (nudity, malware, illegal, spam, ...) */
+  type?: string;
+  content: string;
+  createdAt: number;
+  status: ReportStatus;
+}
+
+type ReportRow = {
+  event_id: string;
+  hash: string;
+  reporter: string;
+  type: string | null;
+  content: string;
+  created_at: number;
+  status: ReportStatus;
+};
+
+export class ReportsService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Store a NIP-56 report event for each of the given blob hashes
+   * Returns the number of new reports
+   */
+  addReport(event: NostrEvent, hashes: string[]): number {
+    const insert = this.db.query(
+      `INSERT OR IGNORE INTO reports (event_id, hash, reporter, type, content, created_at)
+       VALUES ($eventId, $hash, $reporter, $type, $content, $createdAt)`,
+    );
+
+    let added = 0;
+    this.db.transaction(() => {
+      for (const hash of hashes) {
+        const xTag = event.tags.find(
+          (tag) => tag[0] === "x" && tag[1] === hash,
+        );
+        const result = insert.run({
+          eventId: event.id,
+          hash,
+          reporter: event.pubkey,
+          type: xTag?.[2] ?? null,
+          content: event.content,
+          createdAt: event.created_at,
+        });
+        added += result.changes;
+      }
+    })();
+
+    return added;
+  }
+
+  /**
+   * Get all open reports, most recent first
+   */
+  getOpenReports(): BlobReport[] {
+    return this.db
+      .query<ReportRow, []>(
+        "SELECT * FROM reports WHERE status = 'open' ORDER BY created_at DESC",
+      )
+      .all()
+      .map((row) => ({
+        eventId: row.event_id,
+        hash: row.hash,
+        reporter: row.reporter,
+        type: row.type ?? undefined,
+        content: row.content,
+        createdAt: row.created_at,
+        status: row.status,
+      }));
+  }
+
+  /**
+   * Close all open reports for a blob
+   */
+  closeReports(hash: string, status: Exclude<ReportStatus, "open">): void {
+    this.db
+      .query(
+        "UPDATE reports SET status = $status WHERE hash = $hash AND status = 'open'",
+      )
+      .run({ hash, status });
+  }
+}
+
+// Export a singleton instance
+const blobReports = new ReportsService(database);
+
+export default blobReports;
@@ -0,0 +1,87 @@
+import type { Database } from "bun:sqlite";
+import database from "./database.ts";
+
+/** How long an admin session lasts (in seconds) */
+export const SESSION_TTL = 7 * 24 * 60 * 60;
+
+export interface AdminSession {
+  /** Pubkey that signed in, or undefined for password sessions */
+  pubkey?: string;
+  expiresAt: number;
+}
+
+/**
+ * Hash a session token so the database never holds usable tokens
+ */
+function hashToken(token: string): string {
+  return new Bun.CryptoHasher("sha256").update(token).digest("hex");
+}
+
+export class SessionService {
+  private db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Start a new session and return its token
+   */
+  create(pubkey?: string): string {
+    const now = Math.floor(Date.now() / 1000);
+    const token = Buffer.from(
+      crypto.getRandomValues(new Uint8Array(32)),
+    ).toString("base64url");
+
+    this.db.transaction(() => {
+      // Clean up expired sessions whenever a new one is started
+      this.db
+        .query("DELETE FROM admin_sessions WHERE expires_at <= $now")
+        .run({ now });
+      this.db
+        .query(
+          `INSERT INTO admin_sessions (token_hash, pubkey, expires_at)
+           VALUES ($tokenHash, $pubkey, $expiresAt)`,
+        )
+        .run({
+          tokenHash: hashToken(token),
+          pubkey: pubkey ?? null,
+          expiresAt: now + SESSION_TTL,
+        });
+    })();
+
+    return token;
+  }
+
+  /**
+   * Look up an unexpired session by its token
+   */
+  get(token: string): AdminSession | null {
+    const row = this.db
+      .query<
+        { pubkey: string | null; expires_at: number },
+        { tokenHash: string; now: number }
+      >(
+        `SELECT pubkey, expires_at FROM admin_sessions
+         WHERE token_hash = $tokenHash AND expires_at > $now`,
+      )
+      .get({ tokenHash: hashToken(token), now: Math.floor(Date.now() / 1000) });
+
+    if (!row) return null;
+    return { pubkey: row.pubkey ?? undefined, expiresAt: row.expires_at };
+  }
+
+  /**
+   * End a session
+   */
+  delete(token: string): void {
+    this.db
+      .query("DELETE FROM admin_sessions WHERE token_hash = $tokenHash")
+      .run({ tokenHash: hashToken(token) });
+  }
+}
+
+// Export a singleton instance
+const adminSessions = new SessionService(database);
+
+export default adminSessions;
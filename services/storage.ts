@@ -1,98 +1,596 @@
+import type { Database } from "bun:sqlite";
 import {
   watch,
   readdir,
   stat,
   readFile,
-  writeFile,
   mkdir,
   unlink,
+  rename,
+  open,
+  rm,
+  link,
+  copyFile,
+  chmod,
 } from "fs/promises";
 import { createHash } from "crypto";
-import { join, relative } from "path";
-import { existsSync } from "fs";
-import { BLOB_DIR, BLOSSOM_UPLOADS_FOLDER, CONFIG_DIR } from "../env.ts";
+import { basename, dirname, join, relative, sep } from "path";
+import { existsSync, type Stats } from "fs";
+import {
+  BLOB_DIR,
+  BLOSSOM_UPLOADS_FOLDER,
+  CONFIG_DIR,
+  RETENTION_INTERVAL,
+  SCAN_CONCURRENCY,
+} from "../env.ts";
+import mime from "mime";
+import { HashPool } from "../utils/hash.ts";
+import {
+  getImageMetadata,
+  isImageFile,
+  renderThumbnail,
+  THUMBNAIL_SIZE,
+} from "../utils/image.ts";
+import {
+  compileIgnorePatterns,
+  isIgnored,
+  type IgnoreRule,
+} from "../utils/ignore.ts";
+import {
+  createBlobBackend,
+  STORE_FILE_MODE,
+  STORE_FOLDER,
+  type BlobBackend,
+  type ByteRange,
+} from "./backends/index.ts";
+import appConfig from "./config.ts";
+import database from "./database.ts";
+
+export interface FileIndexEntry {
+  hash: string;
+  mtime: number;
+  size: number;
+  /** Pubkey of the user who uploaded the file through Blossom */
+  uploader?: string;
+}
 
 interface FileHashCache {
-  [filePath: string]: {
-    hash: string;
-    mtime: number;
-    size: number;
-  };
+  [filePath: string]: FileIndexEntry;
+}
+
+/** Content metadata used for NIP-94 tags */
+export interface BlobMetadata {
+  width?: number;
+  height?: number;
+  blurhash?: string;
+  /** Hash of the original blob if the server transformed it */
+  originalHash?: string;
+  /** Hash of a downscaled WebP copy of an image, stored in the backend */
+  thumbHash?: string;
+}
+
+/** A fully written upload waiting to be moved into place */
+export interface TempBlob {
+  path: string;
+  hash: string;
+  size: number;
+}
+
+/** Storage used by a single pubkey */
+export interface StorageUsage {
+  bytes: number;
+  blobs: number;
+}
+
+/** Thrown when a streamed blob exceeds the allowed size */
+export class BlobTooLargeError extends Error {
+  constructor(public maxSize: number) {
+    super(`File too large. Maximum size: ${maxSize} bytes`);
+    this.name = "BlobTooLargeError";
+  }
+}
+
+/** Folder inside the blob directory for in-progress uploads, ignored by the scanner */
+const TEMP_FOLDER = ".blossom-tmp";
+
+/** Folder inside the blob directory for deleted blobs, ignored by the scanner */
+const TRASH_FOLDER = ".trash";
+
+/** Folder inside the blob directory for corrupt files, ignored by the scanner */
+const QUARANTINE_FOLDER = ".quarantine";
+
+/** File in the blob directory with gitignore-style patterns for files the scanner skips */
+const IGNORE_FILE = ".blobignore";
+
+/** Errors from link() that mean the filesystem can't hardlink the file */
+const LINK_UNSUPPORTED_ERRORS = ["EXDEV", "EPERM", "EMLINK", "ENOTSUP"];
+
+/** Mode of files copied out of the store, which unlike hardlinks can be edited */
+const COPY_FILE_MODE = 0o644;
+
+/**
+ * Get a key identifying the inode of a file, shared by all hardlinks to it
+ */
+function getInodeKey(stats: Stats): string {
+  return `${stats.dev}:${stats.ino}`;
+}
+
+type MetadataRow = {
+  hash: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  original_hash: string | null;
+  thumb_hash: string | null;
+};
+
+type FileRow = {
+  path: string;
+  hash: string;
+  size: number;
+  mtime: number;
+  uploader: string | null;
+};
+
+type OwnedBlobRow = {
+  hash: string;
+  path: string | null;
+  size: number;
+  type: string | null;
+  created_at: number;
+};
+
+type StoredBlobRow = {
+  hash: string;
+  size: number;
+  type: string | null;
+  created_at: number;
+  written: number;
+};
+
+type OwnerRow = {
+  pubkey: string;
+  created_at: number;
+};
+
+type CorruptFileRow = {
+  path: string;
+  expected_hash: string;
+  actual_hash: string;
+  quarantined: number;
+  detected_at: number;
+};
+
+type ScrubRunRow = {
+  finished_at: number;
+  checked: number;
+  corrupt: number;
+};
+
+type TrashRow = {
+  hash: string;
+  size: number;
+  type: string | null;
+  stored: number;
+  paths: string;
+  owners: string;
+  deleted_by: string;
+  deleted_at: number;
+};
+
+/** A blob owned by a pubkey */
+export interface OwnedBlob {
+  /** Path of a file with the blob's content, unless it is only stored in the backend */
+  relativePath?: string;
+  hash: string;
+  size: number;
+  /** MIME type recorded when the blob was stored */
+  type?: string;
+  /** Unix timestamp (in seconds) of when the pubkey uploaded the blob */
+  uploaded: number;
+}
+
+/** A blob opened for reading, from a file in the blob directory or the storage backend */
+export interface BlobReader {
+  size: number;
+  /** Path of the file, if the blob is available on the local filesystem */
+  path?: string;
+  /** Path relative to the blob directory, if the blob is read from an indexed file */
+  relativePath?: string;
+  /** Modification time (in milliseconds) of the file on the local filesystem */
+  mtime?: number;
+  /** MIME type recorded when the blob was stored */
+  type?: string;
+  /** Stream the content of the blob, or only a byte range of it */
+  stream(range?: ByteRange): ReadableStream<Uint8Array>;
+}
+
+/** Retention rule that expired a blob */
+export type RetentionReason =
+  | "maxAge"
+  | "anonymousMaxAge"
+  | "keepLast"
+  | "maxBytes";
+
+/** A pubkey's blob that the retention policy expires */
+export interface ExpiredBlob {
+  hash: string;
+  pubkey: string;
+  size: number;
+  /** Unix timestamp (in seconds) of when the pubkey uploaded the blob */
+  uploaded: number;
+  reason: RetentionReason;
+}
+
+/** A deleted blob waiting in the trash to be restored or purged */
+export interface TrashedBlob {
+  hash: string;
+  size: number;
+  type?: string;
+  /** Paths in the blob directory the blob was deleted from */
+  paths: string[];
+  /** Pubkeys that owned the blob */
+  owners: string[];
+  /** Pubkey that deleted the blob, "admin" or "retention" */
+  deletedBy: string;
+  /** Unix timestamp (in seconds) of when the blob was deleted */
+  deletedAt: number;
+}
+
+/** A file whose content no longer matches the hash it was indexed with */
+export interface CorruptFile {
+  /** Path of the file in the blob directory, or in the quarantine folder if it was quarantined */
+  path: string;
+  expectedHash: string;
+  actualHash: string;
+  quarantined: boolean;
+  /** Unix timestamp (in seconds) of when the scrub found the file */
+  detectedAt: number;
+}
+
+/** Results of the background job that re-hashes stored files */
+export interface ScrubStatus {
+  /** Unix timestamp (in seconds) of when the last scrub finished */
+  lastRun?: number;
+  /** Number of files checked by the last scrub */
+  checked: number;
+  /** Number of files verified within the scrub interval */
+  verified: number;
+  /** Number of indexed files */
+  total: number;
+  corruptFiles: CorruptFile[];
 }
 
 export class StorageService {
-  private cache: FileHashCache = {};
-  private cacheFile: string;
+  private cache = new Map<string, FileIndexEntry>();
+  /** Reverse index of hash -> relative paths with that content */
+  private hashIndex = new Map<string, Set<string>>();
+  /** Inodes of the files in the blob store, so hardlinks to them don't have to be hashed */
+  private storeInodes = new Map<string, FileIndexEntry>();
+  private db: Database;
+  private backend: BlobBackend;
+  private legacyCacheFile: string;
   private isWatching = false;
   private abortController: AbortController | null = null;
+  private jobTimer: Timer | null = null;
+  /** Modification times of the files (or hashes of remote blobs) verified while they were served */
+  private servedVerified = new Map<string, number>();
+  /** Rules from the ignorePatterns setting and the .blobignore file */
+  private ignoreRules: IgnoreRule[] = [];
   private blobDir: string;
-
-  constructor(blobDir: string, cacheDir: string) {
+  private hashPool: HashPool;
+  private scanConcurrency: number;
+
+  constructor(
+    blobDir: string,
+    db: Database,
+    cacheDir: string,
+    backend: BlobBackend,
+    scanConcurrency = 1,
+  ) {
     this.blobDir = blobDir;
-    this.cacheFile = join(cacheDir, "cache.json");
+    this.db = db;
+    this.backend = backend;
+    this.legacyCacheFile = join(cacheDir, "cache.json");
+    this.scanConcurrency = Math.max(1, scanConcurrency);
+    this.hashPool = new HashPool(this.scanConcurrency);
   }
 
   /**
-   * Calculate SHA256 hash of a file
+   * Calculate SHA256 hash of a file on the hashing worker pool
    */
   private async calculateFileHash(filePath: string): Promise<string> {
-    const content = await readFile(filePath);
-    return createHash("sha256").update(content).digest("hex");
+    return this.hashPool.hash(filePath);
   }
 
   /**
-   * Get file stats (mtime and size)
+   * Get file stats (mtime, size and inode)
    */
   private async getFileStats(
     filePath: string,
-  ): Promise<{ mtime: number; size: number }> {
+  ): Promise<{ mtime: number; size: number; inode: string }> {
     const stats = await stat(filePath);
     return {
       mtime: stats.mtime.getTime(),
       size: stats.size,
+      inode: getInodeKey(stats),
     };
   }
 
   /**
-   * Load cache from disk
+   * Get the hash of a file that is a hardlink to the blob store
+   * Returns undefined if the file isn't linked or was modified since it was stored
    */
-  private async loadCache(): Promise<void> {
+  private getStoredHash(stats: {
+    mtime: number;
+    size: number;
+    inode: string;
+  }): string | undefined {
+    const stored = this.storeInodes.get(stats.inode);
+    if (stored?.mtime === stats.mtime && stored.size === stats.size)
+      return stored.hash;
+    return undefined;
+  }
+
+  /**
+   * Get the uploader pubkey for files stored in the blossom uploads folder
+   */
+  private getUploaderFromPath(relativePath: string): string | undefined {
+    const [folder, pubkey] = relativePath.split(sep);
+    if (
+      folder === BLOSSOM_UPLOADS_FOLDER &&
+      pubkey &&
+      /^[a-f0-9]{64}$/.test(pubkey)
+    )
+      return pubkey;
+    return undefined;
+  }
+
+  /**
+   * Check if a path is inside the blossom uploads folder
+   */
+  private isUploadPath(relativePath: string): boolean {
+    return relativePath.split(sep)[0] === BLOSSOM_UPLOADS_FOLDER;
+  }
+
+  /**
+   * Record that a pubkey owns a blob
+   */
+  private addOwner(
+    hash: string,
+    pubkey: string,
+    createdAt = Math.floor(Date.now() / 1000),
+  ): void {
+    this.db
+      .query(
+        `INSERT OR IGNORE INTO blob_owners (hash, pubkey, created_at)
+         VALUES ($hash, $pubkey, $createdAt)`,
+      )
+      .run({ hash, pubkey, createdAt });
+  }
+
+  /**
+   * Add a path to the reverse hash index
+   */
+  private indexHash(hash: string, relativePath: string): void {
+    let paths = this.hashIndex.get(hash);
+    if (!paths) {
+      paths = new Set();
+      this.hashIndex.set(hash, paths);
+    }
+    paths.add(relativePath);
+  }
+
+  /**
+   * Remove a path from the reverse hash index
+   */
+  private unindexHash(hash: string, relativePath: string): void {
+    const paths = this.hashIndex.get(hash);
+    if (!paths) return;
+    paths.delete(relativePath);
+    if (paths.size === 0) this.hashIndex.delete(hash);
+  }
+
+  /**
+   * Write an entry to the index
+   * Entries are only marked as verified if their content was just hashed, so the scrub checks the others first
+   */
+  private setEntry(
+    relativePath: string,
+    entry: FileIndexEntry,
+    verified = false,
+  ): void {
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO files (path, hash, size, mtime, uploader, verified_at)
+         VALUES ($path, $hash, $size, $mtime, $uploader, $verifiedAt)`,
+      )
+      .run({
+        path: relativePath,
+        hash: entry.hash,
+        size: entry.size,
+        mtime: entry.mtime,
+        uploader: entry.uploader ?? null,
+        verifiedAt: verified ? Math.floor(Date.now() / 1000) : 0,
+      });
+
+    const previous = this.cache.get(relativePath);
+    if (previous) this.unindexHash(previous.hash, relativePath);
+    this.cache.set(relativePath, entry);
+    this.indexHash(entry.hash, relativePath);
+  }
+
+  /**
+   * Remove an entry from the index
+   */
+  private removeEntry(relativePath: string): void {
+    this.db.query("DELETE FROM files WHERE path = $path").run({
+      path: relativePath,
+    });
+    this.servedVerified.delete(join(this.blobDir, relativePath));
+
+    const previous = this.cache.get(relativePath);
+    if (previous) this.unindexHash(previous.hash, relativePath);
+    this.cache.delete(relativePath);
+  }
+
+  /**
+   * Remove several entries from the index in a single transaction
+   */
+  private removeEntries(relativePaths: string[]): void {
+    if (relativePaths.length === 0) return;
+    this.db.transaction(() => {
+      for (const relativePath of relativePaths) this.removeEntry(relativePath);
+    })();
+  }
+
+  /**
+   * Extract image dimensions, blurhash and a thumbnail for a blob if they are not known yet
+   * The file type is detected from the name, which defaults to the file path
+   */
+  private async updateBlobMetadata(
+    hash: string,
+    filePath: string,
+    name = filePath,
+  ): Promise<void> {
+    if (!isImageFile(name) || this.getBlobMetadata(hash)) return;
+
+    const image = await getImageMetadata(filePath);
+
+    // Store a row even if the image could not be read so it is not retried for every copy
+    this.db
+      .query(
+        `INSERT INTO blob_metadata (hash, width, height, blurhash)
+         VALUES ($hash, $width, $height, $blurhash)
+         ON CONFLICT (hash) DO UPDATE SET
+           width = excluded.width,
+           height = excluded.height,
+           blurhash = excluded.blurhash`,
+      )
+      .run({
+        hash,
+        width: image?.width ?? null,
+        height: image?.height ?? null,
+        blurhash: image?.blurhash ?? null,
+      });
+
+    if (image && Math.max(image.width, image.height) > THUMBNAIL_SIZE)
+      await this.addThumbnail(hash, filePath);
+  }
+
+  /**
+   * Render a thumbnail of an image blob and put it into the backend
+   */
+  private async addThumbnail(hash: string, filePath: string): Promise<void> {
+    const data = await renderThumbnail(filePath);
+    if (!data) return;
+
+    const thumbnail = await this.writeTempBlob(new Response(data).body!);
     try {
-      if (existsSync(this.cacheFile)) {
-        const content = await readFile(this.cacheFile, "utf-8");
-        this.cache = JSON.parse(content);
-        console.info(
-          `Loaded cache with ${Object.keys(this.cache).length} entries`,
-        );
-      } else {
-        console.info("No existing cache found, starting fresh");
-        this.cache = {};
-      }
-    } catch (error) {
-      console.error("Error loading cache:", error);
-      this.cache = {};
+      await this.addToStore(thumbnail, "image/webp");
+    } finally {
+      await this.discardTempBlob(thumbnail);
     }
+
+    this.db
+      .query(
+        "UPDATE blob_metadata SET thumb_hash = $thumbHash WHERE hash = $hash",
+      )
+      .run({ hash, thumbHash: thumbnail.hash });
   }
 
   /**
-   * Save cache to disk
+   * Create thumbnails for images that were indexed before thumbnails were generated
    */
-  private async saveCache(): Promise<void> {
+  private async addMissingThumbnails(): Promise<void> {
+    const hashes = this.db
+      .query<{ hash: string }, { size: number }>(
+        `SELECT hash FROM blob_metadata
+         WHERE thumb_hash IS NULL AND (width > $size OR height > $size)`,
+      )
+      .all({ size: THUMBNAIL_SIZE })
+      .map((row) => row.hash);
+
+    for (const hash of hashes) {
+      const filePath = this.openBlob(hash)?.path;
+      if (filePath) await this.addThumbnail(hash, filePath);
+    }
+  }
+
+  /**
+   * Remove metadata for blobs that are no longer in the index
+   */
+  private removeOrphanedMetadata(): void {
+    this.db.exec(
+      `DELETE FROM blob_metadata WHERE hash NOT IN
+         (SELECT hash FROM files UNION SELECT hash FROM stored_blobs
+          UNION SELECT hash FROM trash)`,
+    );
+  }
+
+  /**
+   * Import entries from the legacy cache.json file into the database
+   */
+  private async migrateLegacyCache(): Promise<void> {
+    if (!existsSync(this.legacyCacheFile)) return;
+
     try {
-      // Ensure cache directory exists
-      await mkdir(CONFIG_DIR, { recursive: true });
+      const content = await readFile(this.legacyCacheFile, "utf-8");
+      const legacy = JSON.parse(content) as FileHashCache;
+      const insert = this.db.query(
+        `INSERT OR IGNORE INTO files (path, hash, size, mtime, uploader)
+         VALUES ($path, $hash, $size, $mtime, $uploader)`,
+      );
+
+      this.db.transaction(() => {
+        for (const [path, entry] of Object.entries(legacy)) {
+          const uploader = this.getUploaderFromPath(path);
+          insert.run({
+            path,
+            hash: entry.hash,
+            size: entry.size,
+            mtime: entry.mtime,
+            uploader: uploader ?? null,
+          });
+          if (uploader)
+            this.addOwner(entry.hash, uploader, Math.floor(entry.mtime / 1000));
+        }
+      })();
 
-      const content = JSON.stringify(this.cache, null, 2);
-      await writeFile(this.cacheFile, content, "utf-8");
+      // Keep the old file around in case the migration needs to be redone
+      await rename(this.legacyCacheFile, this.legacyCacheFile + ".migrated");
       console.info(
-        `Saved cache with ${Object.keys(this.cache).length} entries`,
+        `Migrated ${Object.keys(legacy).length} entries from ${this.legacyCacheFile}`,
       );
     } catch (error) {
-      console.error("Error saving cache:", error);
-      throw error;
+      console.error("Error migrating legacy cache:", error);
     }
   }
 
+  /**
+   * Load the index from the database
+   */
+  private async loadCache(): Promise<void> {
+    await this.migrateLegacyCache();
+
+    this.cache.clear();
+    this.hashIndex.clear();
+    const rows = this.db
+      .query<FileRow, []>("SELECT path, hash, size, mtime, uploader FROM files")
+      .all();
+    for (const row of rows) {
+      this.cache.set(row.path, {
+        hash: row.hash,
+        size: row.size,
+        mtime: row.mtime,
+        uploader: row.uploader ?? undefined,
+      });
+      this.indexHash(row.hash, row.path);
+    }
+
+    console.info(`Loaded index with ${this.cache.size} entries`);
+  }
+
   /**
    * Process a single file and update cache if needed
    */
@@ -100,7 +598,7 @@ export class StorageService {
     try {
       const stats = await this.getFileStats(filePath);
       const relativePath = relative(this.blobDir, filePath);
-      const cached = this.cache[relativePath];
+      const cached = this.cache.get(relativePath);
 
       // Check if file has changed or is new
       if (
@@ -109,34 +607,37 @@ export class StorageService {
         cached.size !== stats.size
       ) {
         console.info(`Processing file: ${relativePath}`);
-        const hash = await this.calculateFileHash(filePath);
+        const storedHash = this.getStoredHash(stats);
+        const hash = storedHash ?? (await this.calculateFileHash(filePath));
 
         // Check if this file was moved from another location
         // by looking for an existing entry with the same hash and size
         // but different mtime (indicating a move/copy operation)
-        const existingEntry = Object.entries(this.cache).find(
-          ([path, entry]) =>
-            path !== relativePath &&
-            entry.hash === hash &&
-            entry.size === stats.size,
+        const existingPath = this.getPathsForHash(hash).find(
+          (path) =>
+            path !== relativePath && this.cache.get(path)?.size === stats.size,
         );
 
-        if (
-          existingEntry &&
-          !existsSync(join(this.blobDir, existingEntry[0]))
-        ) {
+        let uploader =
+          cached?.uploader ?? this.getUploaderFromPath(relativePath);
+        if (existingPath && !existsSync(join(this.blobDir, existingPath))) {
           // Found a stale entry with same hash - this is likely a moved file
           console.info(
-            `Detected moved file: ${existingEntry[0]} -> ${relativePath}`,
+            `Detected moved file: ${existingPath} -> ${relativePath}`,
           );
-          delete this.cache[existingEntry[0]];
+          uploader ??= this.cache.get(existingPath)?.uploader;
+          this.removeEntry(existingPath);
         }
 
-        this.cache[relativePath] = {
-          hash,
-          mtime: stats.mtime,
-          size: stats.size,
-        };
+        this.setEntry(
+          relativePath,
+          { hash, mtime: stats.mtime, size: stats.size, uploader },
+          storedHash === undefined,
+        );
+        // Files that appear in a pubkey's uploads folder belong to that pubkey
+        if (!cached && uploader)
+          this.addOwner(hash, uploader, Math.floor(stats.mtime / 1000));
+        await this.updateBlobMetadata(hash, filePath);
 
         return true; // File was updated
       }
@@ -148,6 +649,31 @@ export class StorageService {
     }
   }
 
+  /**
+   * Process a list of files with bounded concurrency
+   * Returns the number of files that were updated
+   */
+  private async processFiles(files: string[]): Promise<number> {
+    let updatedCount = 0;
+    let next = 0;
+
+    const worker = async () => {
+      while (next < files.length) {
+        const file = files[next++]!;
+        if (await this.processFile(file)) updatedCount++;
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        { length: Math.min(this.scanConcurrency, files.length) },
+        worker,
+      ),
+    );
+
+    return updatedCount;
+  }
+
   /**
    * Recursively scan directory for files
    */
@@ -159,6 +685,12 @@ export class StorageService {
 
       for (const entry of entries) {
         const fullPath = join(dirPath, entry.name);
+        const relativePath = relative(this.blobDir, fullPath);
+        if (
+          this.isInternalPath(relativePath) ||
+          this.isIgnoredPath(relativePath, entry.isDirectory())
+        )
+          continue;
 
         if (entry.isDirectory()) {
           // Recursively scan subdirectories
@@ -175,12 +707,96 @@ export class StorageService {
     return files;
   }
 
+  /**
+   * Bring the stored blobs table in line with the backend and load the inodes of local blobs
+   */
+  private async syncStore(): Promise<void> {
+    this.storeInodes.clear();
+    const stored = new Set<string>();
+
+    try {
+      for await (const hash of this.backend.list()) {
+        stored.add(hash);
+
+        const localPath = this.backend.getLocalPath?.(hash);
+        if (localPath) {
+          // Store files written by older versions are still writable
+          await chmod(localPath, STORE_FILE_MODE);
+          const stats = await this.getFileStats(localPath);
+          this.storeInodes.set(stats.inode, {
+            hash,
+            mtime: stats.mtime,
+            size: stats.size,
+          });
+        }
+
+        if (!this.getStoredBlob(hash)) {
+          const stats = await this.backend.head(hash);
+          if (stats)
+            this.recordStoredBlob(
+              hash,
+              stats.size,
+              null,
+              false,
+              Math.floor(stats.mtime / 1000),
+            );
+        }
+      }
+    } catch (error) {
+      // Keep the known blobs if the backend can't be reached
+      console.error(`Error listing the ${this.backend.name} backend:`, error);
+      return;
+    }
+
+    // Forget blobs that were removed from the backend
+    const missing = this.db
+      .query<{ hash: string }, []>("SELECT hash FROM stored_blobs")
+      .all()
+      .map((row) => row.hash)
+      .filter((hash) => !stored.has(hash));
+    this.db.transaction(() => {
+      for (const hash of missing) this.forgetStoredBlob(hash);
+    })();
+
+    console.info(
+      `Found ${stored.size} blobs in the ${this.backend.name} backend, ${missing.length} missing`,
+    );
+  }
+
+  /**
+   * Remove blobs written by this server from the backend that have no owners,
+   * aren't linked from any indexed path and aren't the thumbnail of another blob
+   * Blobs that were already in the backend are never removed, as the database may have been reset
+   */
+  private async removeOrphanedStoredBlobs(): Promise<void> {
+    const orphans = this.db
+      .query<{ hash: string }, []>(
+        `SELECT hash FROM stored_blobs
+         WHERE written = 1
+           AND hash NOT IN (SELECT hash FROM blob_owners)
+           AND hash NOT IN
+             (SELECT thumb_hash FROM blob_metadata WHERE thumb_hash IS NOT NULL)`,
+      )
+      .all()
+      .map((row) => row.hash)
+      .filter((hash) => !this.hashIndex.has(hash));
+
+    for (const hash of orphans) await this.removeFromStore(hash);
+
+    if (orphans.length > 0)
+      console.info(
+        `Removed ${orphans.length} orphaned blobs from the ${this.backend.name} backend`,
+      );
+  }
+
   /**
    * Perform initial scan of all files
    */
   private async initialScan(): Promise<void> {
     console.info(`Starting initial scan of ${this.blobDir}`);
 
+    await this.syncStore();
+
     if (!existsSync(this.blobDir)) {
       console.info(`BLOB_DIR ${this.blobDir} does not exist, creating it`);
       await mkdir(this.blobDir, { recursive: true });
@@ -190,30 +806,20 @@ export class StorageService {
     const files = await this.scanDirectory(this.blobDir);
     console.info(`Found ${files.length} files to process`);
 
-    let updatedCount = 0;
-    for (const file of files) {
-      const updated = await this.processFile(file);
-      if (updated) updatedCount++;
-    }
+    const updatedCount = await this.processFiles(files);
 
     // Remove entries for files that no longer exist
     const currentFiles = new Set(files.map((f) => relative(this.blobDir, f)));
-    const cachedFiles = Object.keys(this.cache);
-    let removedCount = 0;
-
-    for (const cachedFile of cachedFiles) {
-      if (!currentFiles.has(cachedFile)) {
-        delete this.cache[cachedFile];
-        removedCount++;
-      }
-    }
-
-    if (updatedCount > 0 || removedCount > 0) {
-      await this.saveCache();
-    }
+    const removed = Array.from(this.cache.keys()).filter(
+      (cachedFile) => !currentFiles.has(cachedFile),
+    );
+    this.removeEntries(removed);
+    this.removeOrphanedMetadata();
+    await this.removeOrphanedStoredBlobs();
+    await this.addMissingThumbnails();
 
     console.info(
-      `Initial scan complete: ${updatedCount} files updated, ${removedCount} files removed`,
+      `Initial scan complete: ${updatedCount} files updated, ${removed.length} files removed`,
     );
   }
 
@@ -227,29 +833,31 @@ export class StorageService {
     if (!filename) return;
 
     const fullPath = join(this.blobDir, filename);
-    const relativePath = relative(this.blobDir, filename);
+    const relativePath = relative(this.blobDir, fullPath);
+
+    // Rescan with the new rules when the ignore file changes
+    if (relativePath === IGNORE_FILE) {
+      await this.reloadIgnoreRules();
+      return;
+    }
+
+    // Ignore in-progress uploads, the blob store and excluded files
+    if (this.isInternalPath(relativePath)) return;
+    const stats = await stat(fullPath).catch(() => null);
+    if (this.isIgnoredPath(relativePath, stats?.isDirectory() ?? false)) return;
 
     console.info(`File change detected: ${eventType} - ${relativePath}`);
 
     try {
-      if (existsSync(fullPath)) {
-        const stats = await stat(fullPath);
+      if (stats) {
         if (stats.isFile()) {
-          const updated = await this.processFile(fullPath);
-          if (updated) {
-            await this.saveCache();
-          }
+          await this.processFile(fullPath);
         } else if (stats.isDirectory()) {
           // New directory created - scan it for existing files
           console.info(`New directory detected: ${relativePath}`);
           const files = await this.scanDirectory(fullPath);
-          let updatedCount = 0;
-          for (const file of files) {
-            const updated = await this.processFile(file);
-            if (updated) updatedCount++;
-          }
+          const updatedCount = await this.processFiles(files);
           if (updatedCount > 0) {
-            await this.saveCache();
             console.info(
               `Processed ${updatedCount} files in new directory: ${relativePath}`,
             );
@@ -275,8 +883,12 @@ export class StorageService {
 
     console.info("Starting storage service...");
 
-    // Load existing cache
+    // Remove uploads left over from an unclean shutdown
+    await rm(this.getTempDir(), { recursive: true, force: true });
+
+    // Load existing index
     await this.loadCache();
+    await this.loadIgnoreRules();
 
     // Perform initial scan
     await this.initialScan();
@@ -298,6 +910,13 @@ export class StorageService {
 
       console.info(`Watching for changes in ${this.blobDir}`);
 
+      // Delete expired blobs and purge the trash now and periodically after, without holding up the watcher
+      this.runScheduledJobs();
+      this.jobTimer = setInterval(
+        () => this.runScheduledJobs(),
+        RETENTION_INTERVAL * 60 * 1000,
+      );
+
       for await (const event of watcher) {
         await this.handleFileChange(event.eventType, event.filename);
 
@@ -319,36 +938,49 @@ export class StorageService {
     }
   }
 
+  /**
+   * Apply the retention policy, purge blobs that have been in the trash too long and verify files
+   */
+  private async runScheduledJobs(): Promise<void> {
+    const jobs: [string, () => Promise<unknown>][] = [
+      ["applying the retention policy", () => this.applyRetention()],
+      ["purging the trash", () => this.purgeExpiredTrash()],
+      ["scrubbing files", () => this.scrub()],
+    ];
+
+    // A failing job is logged and doesn't stop the others
+    for (const [name, job] of jobs) {
+      try {
+        await job();
+      } catch (error) {
+        console.error(`Error ${name}:`, error);
+      }
+    }
+  }
+
   /**
    * Handle deletion of files or directories
    */
   private async handleDeletion(relativePath: string): Promise<void> {
-    let removedCount = 0;
-    const cachedFiles = Object.keys(this.cache);
+    const removed: string[] = [];
 
     // Remove the exact path if it exists
-    if (this.cache[relativePath]) {
-      delete this.cache[relativePath];
-      removedCount++;
-      console.info(`Removed deleted file from cache: ${relativePath}`);
-    }
+    if (this.cache.has(relativePath)) removed.push(relativePath);
 
     // Also remove any files that were inside this path (in case it was a directory)
     const pathPrefix = relativePath.endsWith("/")
       ? relativePath
       : relativePath + "/";
-    for (const cachedFile of cachedFiles) {
-      if (cachedFile.startsWith(pathPrefix)) {
-        delete this.cache[cachedFile];
-        removedCount++;
-        console.info(`Removed deleted file from cache: ${cachedFile}`);
-      }
+    for (const cachedFile of this.cache.keys()) {
+      if (cachedFile.startsWith(pathPrefix)) removed.push(cachedFile);
     }
 
-    if (removedCount > 0) {
-      await this.saveCache();
+    if (removed.length > 0) {
+      this.removeEntries(removed);
+      for (const file of removed)
+        console.info(`Removed deleted file from cache: ${file}`);
       console.info(
-        `Removed ${removedCount} entries from cache due to deletion`,
+        `Removed ${removed.length} entries from cache due to deletion`,
       );
     }
   }
@@ -357,21 +989,15 @@ export class StorageService {
    * Clean up stale cache entries by removing entries that don't exist on disk
    */
   private async cleanStaleEntries(): Promise<void> {
-    const cachedFiles = Object.keys(this.cache);
-    let removedCount = 0;
-
-    for (const cachedFile of cachedFiles) {
-      const fullPath = join(this.blobDir, cachedFile);
-      if (!existsSync(fullPath)) {
-        delete this.cache[cachedFile];
-        removedCount++;
-        console.info(`Removed stale cache entry: ${cachedFile}`);
-      }
-    }
+    const removed = Array.from(this.cache.keys()).filter(
+      (cachedFile) => !existsSync(join(this.blobDir, cachedFile)),
+    );
 
-    if (removedCount > 0) {
-      await this.saveCache();
-      console.info(`Cleaned ${removedCount} stale entries from cache`);
+    if (removed.length > 0) {
+      this.removeEntries(removed);
+      for (const file of removed)
+        console.info(`Removed stale cache entry: ${file}`);
+      console.info(`Cleaned ${removed.length} stale entries from cache`);
     }
   }
 
@@ -383,6 +1009,11 @@ export class StorageService {
       this.abortController.abort();
       this.abortController = null;
     }
+    if (this.jobTimer) {
+      clearInterval(this.jobTimer);
+      this.jobTimer = null;
+    }
+    this.hashPool.terminate();
     this.isWatching = false;
     console.info("Storage service stopped");
   }
@@ -391,14 +1022,169 @@ export class StorageService {
    * Get the hash of a specific file
    */
   getFileHash(relativePath: string): string | null {
-    return this.cache[relativePath]?.hash || null;
+    return this.cache.get(relativePath)?.hash || null;
+  }
+
+  /**
+   * Get the index entry for a specific file
+   */
+  getFileEntry(relativePath: string): FileIndexEntry | null {
+    return this.cache.get(relativePath) ?? null;
+  }
+
+  /**
+   * Get the relative paths of all indexed files with a given hash
+   */
+  getPathsForHash(hash: string): string[] {
+    const paths = this.hashIndex.get(hash);
+    return paths ? Array.from(paths) : [];
+  }
+
+  /**
+   * Check if a blob is in the blob directory or the backend
+   */
+  hasBlob(hash: string): boolean {
+    return this.hashIndex.has(hash) || this.getStoredBlob(hash) !== null;
+  }
+
+  /**
+   * Open a blob for reading, preferring a file in the blob directory over the backend
+   */
+  openBlob(hash: string): BlobReader | null {
+    for (const relativePath of this.getPathsForHash(hash)) {
+      const filePath = join(this.blobDir, relativePath);
+      if (!existsSync(filePath)) continue;
+
+      const file = Bun.file(filePath);
+      return {
+        size: file.size,
+        path: filePath,
+        relativePath,
+        mtime: file.lastModified,
+        stream: (range) =>
+          (range ? file.slice(range.start, range.end + 1) : file).stream(),
+      };
+    }
+
+    const stored = this.getStoredBlob(hash);
+    if (!stored) return null;
+
+    const localPath = this.backend.getLocalPath?.(hash);
+    return {
+      size: stored.size,
+      path: localPath,
+      mtime: localPath ? Bun.file(localPath).lastModified : undefined,
+      type: stored.type ?? undefined,
+      stream: (range) => this.backend.get(hash, range),
+    };
+  }
+
+  /**
+   * Check if a blob has to be verified while it is served
+   * Blobs are only verified when verifyOnServe is enabled, and once per change of their file
+   */
+  needsVerification(hash: string, blob: BlobReader): boolean {
+    if (!appConfig.get("verifyOnServe")) return false;
+    return this.servedVerified.get(blob.path ?? hash) !== (blob.mtime ?? 0);
+  }
+
+  /**
+   * Stream the whole content of a blob while verifying its hash
+   * The last chunk is held back until the hash is checked, so a mismatch aborts the response
+   * before it is complete. Indexed files that don't match are flagged like the scrub does,
+   * and blobs read from the backend are removed from it
+   */
+  verifyBlobStream(hash: string, blob: BlobReader): ReadableStream<Uint8Array> {
+    const hasher = createHash("sha256");
+    let pending: Uint8Array | null = null;
+
+    return blob.stream().pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform: (chunk, controller) => {
+          hasher.update(chunk);
+          if (pending) controller.enqueue(pending);
+          pending = chunk;
+        },
+        flush: async (controller) => {
+          const actualHash = hasher.digest("hex");
+          if (actualHash === hash) {
+            this.servedVerified.set(blob.path ?? hash, blob.mtime ?? 0);
+            if (pending) controller.enqueue(pending);
+            return;
+          }
+
+          console.error(
+            `Blob ${hash} does not match its hash while serving, got ${actualHash}`,
+          );
+
+          // Flag the file before the response fails, so a retry doesn't get it again
+          // Files edited since they were indexed are indexed again instead
+          const entry = blob.relativePath
+            ? this.cache.get(blob.relativePath)
+            : undefined;
+          if (!blob.relativePath) {
+            await this.removeFromStore(hash);
+          } else if (entry?.hash === hash) {
+            const filePath = join(this.blobDir, blob.relativePath);
+            if (await this.isChangedSinceIndexed(filePath, entry))
+              await this.processFile(filePath);
+            else
+              await this.flagCorruptFile(
+                {
+                  path: blob.relativePath,
+                  hash,
+                  size: entry.size,
+                  mtime: entry.mtime,
+                  uploader: entry.uploader ?? null,
+                },
+                actualHash,
+                appConfig.get("scrub").quarantine,
+              );
+          }
+          controller.error(new Error("Blob content does not match its hash"));
+        },
+      }),
+    );
+  }
+
+  /**
+   * Get the content metadata for a blob
+   */
+  getBlobMetadata(hash: string): BlobMetadata | null {
+    const row = this.db
+      .query<
+        MetadataRow,
+        { hash: string }
+      >("SELECT * FROM blob_metadata WHERE hash = $hash")
+      .get({ hash });
+    if (!row) return null;
+
+    return {
+      width: row.width ?? undefined,
+      height: row.height ?? undefined,
+      blurhash: row.blurhash ?? undefined,
+      originalHash: row.original_hash ?? undefined,
+      thumbHash: row.thumb_hash ?? undefined,
+    };
+  }
+
+  /**
+   * Record the hash of the original blob a transformed blob was created from
+   */
+  setOriginalHash(hash: string, originalHash: string): void {
+    this.db
+      .query(
+        `INSERT INTO blob_metadata (hash, original_hash) VALUES ($hash, $originalHash)
+         ON CONFLICT (hash) DO UPDATE SET original_hash = excluded.original_hash`,
+      )
+      .run({ hash, originalHash });
   }
 
   /**
    * Get all cached file hashes
    */
   getAllHashes(): FileHashCache {
-    return { ...this.cache };
+    return Object.fromEntries(this.cache);
   }
 
   /**
@@ -413,10 +1199,7 @@ export class StorageService {
    */
   async refreshFile(relativePath: string): Promise<void> {
     const fullPath = join(this.blobDir, relativePath);
-    if (existsSync(fullPath)) {
-      const updated = await this.processFile(fullPath);
-      if (updated) await this.saveCache();
-    }
+    if (existsSync(fullPath)) await this.processFile(fullPath);
   }
 
   /**
@@ -442,102 +1225,922 @@ export class StorageService {
   }
 
   /**
-   * Store a blob in the /blossom-uploads/<pubkey>/ directory structure
+   * Get the directory used for in-progress uploads
+   */
+  private getTempDir(): string {
+    return join(this.blobDir, TEMP_FOLDER);
+  }
+
+  /**
+   * Check if a path is used by the storage service itself and should be hidden
+   */
+  isInternalPath(relativePath: string): boolean {
+    const folder = relativePath.split(sep)[0];
+    return (
+      folder === TEMP_FOLDER ||
+      folder === STORE_FOLDER ||
+      folder === TRASH_FOLDER ||
+      folder === QUARANTINE_FOLDER ||
+      relativePath === IGNORE_FILE
+    );
+  }
+
+  /**
+   * Check if a path is excluded by the ignore patterns
+   */
+  isIgnoredPath(relativePath: string, isDirectory: boolean): boolean {
+    return isIgnored(this.ignoreRules, relativePath, isDirectory);
+  }
+
+  /**
+   * Compile the ignore patterns from the config and the .blobignore file
+   */
+  private async loadIgnoreRules(): Promise<void> {
+    const file = Bun.file(join(this.blobDir, IGNORE_FILE));
+    const lines = (await file.exists()) ? (await file.text()).split("\n") : [];
+
+    this.ignoreRules = compileIgnorePatterns([
+      ...appConfig.get("ignorePatterns"),
+      ...lines,
+    ]);
+  }
+
+  /**
+   * Reload the ignore patterns and rescan the blob directory
+   * Files that are now excluded are removed from the index
+   */
+  async reloadIgnoreRules(): Promise<void> {
+    await this.loadIgnoreRules();
+    console.info(`Loaded ${this.ignoreRules.length} ignore rules`);
+    await this.initialScan();
+  }
+
+  /**
+   * Get the backend record of a stored blob
+   */
+  private getStoredBlob(hash: string): StoredBlobRow | null {
+    return this.db
+      .query<
+        StoredBlobRow,
+        { hash: string }
+      >("SELECT * FROM stored_blobs WHERE hash = $hash")
+      .get({ hash });
+  }
+
+  /**
+   * Record that the backend has a blob
+   * Only blobs written by this server can be removed as orphans, blobs found in the backend are left alone
+   */
+  private recordStoredBlob(
+    hash: string,
+    size: number,
+    type: string | null,
+    written: boolean,
+    createdAt = Math.floor(Date.now() / 1000),
+  ): void {
+    this.db
+      .query(
+        `INSERT OR IGNORE INTO stored_blobs (hash, size, type, created_at, written)
+         VALUES ($hash, $size, $type, $createdAt, $written)`,
+      )
+      .run({ hash, size, type, createdAt, written: written ? 1 : 0 });
+  }
+
+  /**
+   * Remove the record of a blob in the backend
+   */
+  private forgetStoredBlob(hash: string): void {
+    this.db.query("DELETE FROM stored_blobs WHERE hash = $hash").run({ hash });
+    this.servedVerified.delete(this.backend.getLocalPath?.(hash) ?? hash);
+  }
+
+  /**
+   * Put a temporary blob into the backend, unless the backend already has an intact copy of it
+   */
+  private async addToStore(blob: TempBlob, type: string | null): Promise<void> {
+    const stored = this.getStoredBlob(blob.hash);
+    if (stored) {
+      if (await this.isStoreCopyIntact(blob.hash)) return;
+
+      console.warn(`Replacing modified store copy of blob ${blob.hash}`);
+      await this.removeFromStore(blob.hash);
+    }
+
+    await this.backend.put(blob.hash, blob.path);
+    this.recordStoredBlob(blob.hash, blob.size, type, true, stored?.created_at);
+
+    const localPath = this.backend.getLocalPath?.(blob.hash);
+    if (localPath) {
+      const stats = await this.getFileStats(localPath);
+      this.storeInodes.set(stats.inode, {
+        hash: blob.hash,
+        mtime: stats.mtime,
+        size: stats.size,
+      });
+    }
+  }
+
+  /**
+   * Check that the local copy of a stored blob still has the stored content
+   * The copy is only hashed again if its size or modification time changed since it was stored
+   */
+  private async isStoreCopyIntact(hash: string): Promise<boolean> {
+    const localPath = this.backend.getLocalPath?.(hash);
+    if (!localPath) return true;
+    if (!existsSync(localPath)) return false;
+
+    const stats = await this.getFileStats(localPath);
+    if (this.getStoredHash(stats) === hash) return true;
+    if ((await this.calculateFileHash(localPath)) !== hash) return false;
+
+    this.storeInodes.set(stats.inode, {
+      hash,
+      mtime: stats.mtime,
+      size: stats.size,
+    });
+    return true;
+  }
+
+  /**
+   * Remove a blob from the backend
+   * Returns false if the backend didn't have it
+   */
+  private async removeFromStore(hash: string): Promise<boolean> {
+    if (!this.getStoredBlob(hash)) return false;
+
+    const localPath = this.backend.getLocalPath?.(hash);
+    if (localPath && existsSync(localPath)) {
+      const stats = await this.getFileStats(localPath);
+      this.storeInodes.delete(stats.inode);
+    }
+
+    await this.backend.delete(hash);
+    this.forgetStoredBlob(hash);
+    return true;
+  }
+
+  /**
+   * Make a file visible at another path, as a hardlink or a copy if the filesystem can't link it
+   */
+  private async linkFile(sourcePath: string, filePath: string): Promise<void> {
+    await mkdir(dirname(filePath), { recursive: true });
+    await rm(filePath, { force: true });
+
+    try {
+      await link(sourcePath, filePath);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (!code || !LINK_UNSUPPORTED_ERRORS.includes(code)) throw error;
+      await copyFile(sourcePath, filePath);
+      await chmod(filePath, COPY_FILE_MODE);
+    }
+  }
+
+  /**
+   * Stream data into a temporary file while calculating its hash
+   * Throws a BlobTooLargeError as soon as more than maxSize bytes are read
+   */
+  async writeTempBlob(
+    stream: ReadableStream<Uint8Array>,
+    maxSize?: number,
+  ): Promise<TempBlob> {
+    await mkdir(this.getTempDir(), { recursive: true });
+
+    const path = join(this.getTempDir(), crypto.randomUUID());
+    const hasher = createHash("sha256");
+    const handle = await open(path, "w");
+    let size = 0;
+
+    try {
+      for await (const chunk of stream) {
+        size += chunk.byteLength;
+        if (maxSize && size > maxSize) throw new BlobTooLargeError(maxSize);
+
+        hasher.update(chunk);
+        await handle.write(chunk);
+      }
+    } catch (error) {
+      await handle.close();
+      await unlink(path).catch(() => {});
+      throw error;
+    }
+
+    await handle.close();
+    return { path, hash: hasher.digest("hex"), size };
+  }
+
+  /**
+   * Remove a temporary blob if it has not been moved into place
+   */
+  async discardTempBlob(blob: TempBlob): Promise<void> {
+    await rm(blob.path, { force: true });
+  }
+
+  /**
+   * Move a temporary blob to a path in the blob directory and index it
+   * With a local backend the blob is put into the store and the path is linked to it,
+   * so its data is only stored once however many paths it is linked to
+   */
+  async commitTempBlob(
+    blob: TempBlob,
+    relativePath: string,
+    uploader?: string,
+  ): Promise<string> {
+    const filePath = join(this.blobDir, relativePath);
+
+    if (this.backend.getLocalPath) {
+      await this.addToStore(blob, mime.getType(relativePath));
+      await this.linkFile(this.backend.getLocalPath(blob.hash), filePath);
+    } else {
+      await mkdir(dirname(filePath), { recursive: true });
+      await rename(blob.path, filePath);
+    }
+
+    // Update index immediately
+    const stats = await stat(filePath);
+    this.setEntry(relative(this.blobDir, filePath), {
+      hash: blob.hash,
+      mtime: stats.mtime.getTime(),
+      size: stats.size,
+      uploader,
+    });
+    await this.updateBlobMetadata(blob.hash, filePath);
+
+    return filePath;
+  }
+
+  /**
+   * Store a blob for a pubkey and record the pubkey as an owner
+   * With a local backend the blob is also linked into the /blossom-uploads/<pubkey>/ directory
    */
   async storeBlobForPubkey(
     pubkey: string,
     filename: string,
-    data: Uint8Array,
-  ): Promise<{ filePath: string; hash: string }> {
-    const uploadsDir = join(this.blobDir, "blossom-uploads", pubkey);
+    blob: TempBlob,
+  ): Promise<void> {
+    if (!this.backend.getLocalPath) {
+      await this.updateBlobMetadata(blob.hash, blob.path, filename);
+      await this.addToStore(blob, mime.getType(filename));
+    } else {
+      const hasLink = this.getPathsForHash(blob.hash).some(
+        (path) =>
+          this.getUploaderFromPath(path) === pubkey &&
+          existsSync(join(this.blobDir, path)),
+      );
+      if (!hasLink)
+        await this.commitTempBlob(
+          blob,
+          join(BLOSSOM_UPLOADS_FOLDER, pubkey, filename),
+          pubkey,
+        );
+    }
 
-    // Ensure the directory exists
-    await mkdir(uploadsDir, { recursive: true });
+    this.addOwner(blob.hash, pubkey);
+  }
+
+  /**
+   * Remove a pubkey's ownership of a blob and its link in the pubkey's uploads folder
+   * The blob is moved to the trash once no owners remain, copies outside the uploads folder are left alone
+   * Returns false if the pubkey didn't own the blob
+   */
+  async deleteBlobForPubkey(
+    hash: string,
+    pubkey: string,
+    deletedBy = pubkey,
+  ): Promise<boolean> {
+    const result = this.db.transaction(() => {
+      const owner = this.db
+        .query<OwnerRow, { hash: string; pubkey: string }>(
+          `SELECT pubkey, created_at FROM blob_owners
+           WHERE hash = $hash AND pubkey = $pubkey`,
+        )
+        .get({ hash, pubkey });
+      if (!owner) return null;
+
+      this.db
+        .query(
+          "DELETE FROM blob_owners WHERE hash = $hash AND pubkey = $pubkey",
+        )
+        .run({ hash, pubkey });
+
+      const remainingOwners = this.db
+        .query<
+          { count: number },
+          { hash: string }
+        >("SELECT COUNT(*) AS count FROM blob_owners WHERE hash = $hash")
+        .get({ hash })!.count;
+      return { owner, remainingOwners };
+    })();
+
+    if (!result) return false;
+    console.info(`Removed ${pubkey} as owner of blob ${hash}`);
+
+    const paths = this.getPathsForHash(hash);
+    if (result.remainingOwners === 0) {
+      await this.moveToTrash(
+        hash,
+        paths.filter((path) => this.isUploadPath(path)),
+        [result.owner],
+        deletedBy,
+      );
+      return true;
+    }
 
-    const filePath = join(uploadsDir, filename);
+    const removed = paths.filter(
+      (path) => this.getUploaderFromPath(path) === pubkey,
+    );
+    // Move the only copy left into the store so the other owners keep the blob
+    if (removed.length === paths.length && !this.getStoredBlob(hash))
+      await this.keepInStore(hash, removed);
+
+    for (const relativePath of removed) {
+      try {
+        await rm(join(this.blobDir, relativePath), { force: true });
+        this.removeEntry(relativePath);
+        console.info(`Deleted blob: ${relativePath}`);
+      } catch (error) {
+        console.error(`Error deleting blob ${relativePath}:`, error);
+      }
+    }
 
-    // Write the file
-    await writeFile(filePath, data);
+    return true;
+  }
 
-    // Calculate hash
-    const hash = createHash("sha256").update(data).digest("hex");
+  /**
+   * Put the first copy of a blob that still matches its hash into the backend
+   */
+  private async keepInStore(
+    hash: string,
+    relativePaths: string[],
+  ): Promise<void> {
+    for (const relativePath of relativePaths) {
+      const filePath = join(this.blobDir, relativePath);
+      if (!existsSync(filePath)) continue;
+      if ((await this.calculateFileHash(filePath)) !== hash) continue;
+
+      const stats = await stat(filePath);
+      await this.addToStore(
+        { path: filePath, hash, size: stats.size },
+        mime.getType(filePath),
+      );
+      return;
+    }
 
-    // Update cache immediately
-    const relativePath = relative(this.blobDir, filePath);
-    const stats = await stat(filePath);
-    this.cache[relativePath] = {
+    console.error(`No intact copy of blob ${hash} left to keep for its owners`);
+  }
+
+  /**
+   * Move every copy of a blob to the trash and remove its owners
+   * Returns the number of copies removed
+   */
+  async trashBlobByHash(hash: string, deletedBy = "admin"): Promise<number> {
+    const owners = this.db
+      .query<
+        OwnerRow,
+        { hash: string }
+      >("SELECT pubkey, created_at FROM blob_owners WHERE hash = $hash")
+      .all({ hash });
+
+    const removedCount = await this.moveToTrash(
       hash,
-      mtime: stats.mtime.getTime(),
-      size: stats.size,
-    };
+      this.getPathsForHash(hash),
+      owners,
+      deletedBy,
+    );
+    this.db.query("DELETE FROM blob_owners WHERE hash = $hash").run({ hash });
 
-    // Save cache
-    await this.saveCache();
+    return removedCount;
+  }
 
-    return { filePath, hash };
+  /**
+   * Get the path of a blob's data in the trash
+   */
+  private getTrashPath(hash: string): string {
+    return join(this.blobDir, TRASH_FOLDER, hash);
   }
 
   /**
-   * Delete a blob by its hash
+   * Get the trash record of a blob
    */
-  async deleteBlobByHash(hash: string): Promise<boolean> {
-    // Find the file with this hash
-    const allHashes = this.getAllHashes();
+  private getTrashRow(hash: string): TrashRow | null {
+    return this.db
+      .query<
+        TrashRow,
+        { hash: string }
+      >("SELECT * FROM trash WHERE hash = $hash")
+      .get({ hash });
+  }
 
-    for (const [relativePath, cacheEntry] of Object.entries(allHashes)) {
-      if (cacheEntry.hash === hash) {
-        const fullPath = join(this.blobDir, relativePath);
-        if (existsSync(fullPath)) {
-          try {
-            await unlink(fullPath);
-            delete this.cache[relativePath];
-            await this.saveCache();
-            console.info(`Deleted blob: ${relativePath}`);
-            return true;
-          } catch (error) {
-            console.error(`Error deleting blob ${relativePath}:`, error);
-            return false;
-          }
+  /**
+   * Delete a blob from the given paths, and from the backend once no other paths have it
+   * A copy of the data is kept in the trash, or in the backend's own trash for remote backends,
+   * so the blob can be restored until it is purged
+   * Returns the number of copies removed
+   */
+  private async moveToTrash(
+    hash: string,
+    relativePaths: string[],
+    owners: OwnerRow[],
+    deletedBy: string,
+  ): Promise<number> {
+    const stored = this.getStoredBlob(hash);
+    const unstore =
+      stored !== null &&
+      this.getPathsForHash(hash).every((path) => relativePaths.includes(path));
+    if (relativePaths.length === 0 && !unstore) return 0;
+
+    // Remote backends keep the data in their own trash instead of downloading it
+    const remoteTrash = unstore && this.backend.trash !== undefined;
+
+    // Keep the data before removing any copies
+    const trashPath = this.getTrashPath(hash);
+    if (!remoteTrash && !existsSync(trashPath)) {
+      const localPath =
+        (stored ? this.backend.getLocalPath?.(hash) : undefined) ??
+        (relativePaths[0] !== undefined
+          ? join(this.blobDir, relativePaths[0])
+          : undefined);
+      if (localPath) await this.linkFile(localPath, trashPath);
+      else await Bun.write(trashPath, new Response(this.backend.get(hash)));
+    }
+
+    let removedCount = 0;
+    for (const relativePath of relativePaths) {
+      try {
+        await rm(join(this.blobDir, relativePath), { force: true });
+        this.removeEntry(relativePath);
+        removedCount++;
+        console.info(`Moved blob to the trash: ${relativePath}`);
+      } catch (error) {
+        console.error(`Error deleting blob ${relativePath}:`, error);
+      }
+    }
+
+    // Local backends only hold the data of the removed links, remote ones have their own copy
+    if (remoteTrash) {
+      await this.backend.trash?.(hash);
+      this.forgetStoredBlob(hash);
+      removedCount++;
+    } else if (
+      unstore &&
+      (await this.removeFromStore(hash)) &&
+      !this.backend.getLocalPath
+    )
+      removedCount++;
+
+    // Merge with an earlier deletion of the same blob that is still in the trash
+    const previous = this.getTrashRow(hash);
+    const paths = new Set<string>(previous ? JSON.parse(previous.paths) : []);
+    for (const path of relativePaths) paths.add(path);
+    const previousOwners: OwnerRow[] = previous
+      ? JSON.parse(previous.owners)
+      : [];
+
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO trash
+           (hash, size, type, stored, paths, owners, deleted_by, deleted_at)
+         VALUES ($hash, $size, $type, $stored, $paths, $owners, $deletedBy, $deletedAt)`,
+      )
+      .run({
+        hash,
+        size: remoteTrash ? stored!.size : (await stat(trashPath)).size,
+        type: stored?.type ?? previous?.type ?? null,
+        stored: unstore || previous?.stored ? 1 : 0,
+        paths: JSON.stringify(Array.from(paths)),
+        owners: JSON.stringify([
+          ...previousOwners.filter(
+            (owner) => !owners.some((o) => o.pubkey === owner.pubkey),
+          ),
+          ...owners,
+        ]),
+        deletedBy,
+        deletedAt: Math.floor(Date.now() / 1000),
+      });
+
+    return removedCount;
+  }
+
+  /**
+   * List the blobs in the trash, most recently deleted first
+   */
+  getTrashedBlobs(): TrashedBlob[] {
+    return this.db
+      .query<TrashRow, []>("SELECT * FROM trash ORDER BY deleted_at DESC")
+      .all()
+      .map((row) => ({
+        hash: row.hash,
+        size: row.size,
+        type: row.type ?? undefined,
+        paths: JSON.parse(row.paths),
+        owners: (JSON.parse(row.owners) as OwnerRow[]).map((o) => o.pubkey),
+        deletedBy: row.deleted_by,
+        deletedAt: row.deleted_at,
+      }));
+  }
+
+  /**
+   * Restore a blob from the trash to its paths, owners and the backend
+   * Paths that have been used by other files since are skipped
+   * Returns false if the blob isn't in the trash
+   */
+  async restoreFromTrash(hash: string): Promise<boolean> {
+    const row = this.getTrashRow(hash);
+    if (!row) return false;
+
+    const trashPath = this.getTrashPath(hash);
+    const hasTrashFile = existsSync(trashPath);
+
+    // The trash is a folder in the blob directory, so its files can be changed by anyone with access to it
+    if (hasTrashFile && (await this.calculateFileHash(trashPath)) !== hash)
+      throw new Error("The data of the trashed blob doesn't match its hash");
+
+    // Remote backends keep the data of the blobs they stored in their own trash
+    const restored = row.stored ? await this.backend.restore?.(hash) : false;
+    if (restored) this.recordStoredBlob(hash, row.size, row.type, true);
+    else if (!hasTrashFile)
+      throw new Error("The data of the trashed blob is missing");
+    else if (row.stored)
+      await this.addToStore(
+        { path: trashPath, hash, size: row.size },
+        row.type,
+      );
+
+    const sourcePath =
+      (row.stored ? this.backend.getLocalPath?.(hash) : undefined) ??
+      (hasTrashFile ? trashPath : undefined);
+
+    for (const relativePath of JSON.parse(row.paths) as string[]) {
+      const filePath = join(this.blobDir, relativePath);
+      if (existsSync(filePath)) continue;
+
+      if (sourcePath) await this.linkFile(sourcePath, filePath);
+      else await Bun.write(filePath, new Response(this.backend.get(hash)));
+      const stats = await stat(filePath);
+      this.setEntry(relativePath, {
+        hash,
+        mtime: stats.mtime.getTime(),
+        size: stats.size,
+        uploader: this.getUploaderFromPath(relativePath),
+      });
+    }
+    for (const owner of JSON.parse(row.owners) as OwnerRow[])
+      this.addOwner(hash, owner.pubkey, owner.created_at);
+
+    await rm(trashPath, { force: true });
+    this.db.query("DELETE FROM trash WHERE hash = $hash").run({ hash });
+    console.info(`Restored blob ${hash} from the trash`);
+
+    return true;
+  }
+
+  /**
+   * Permanently delete a blob in the trash
+   * Returns false if the blob isn't in the trash
+   */
+  async purgeFromTrash(hash: string): Promise<boolean> {
+    const row = this.getTrashRow(hash);
+    if (!row) return false;
+
+    await rm(this.getTrashPath(hash), { force: true });
+    if (row.stored) await this.backend.purge?.(hash);
+    this.db.query("DELETE FROM trash WHERE hash = $hash").run({ hash });
+    this.removeOrphanedMetadata();
+    console.info(`Purged blob ${hash} from the trash`);
+
+    return true;
+  }
+
+  /**
+   * Permanently delete the blobs that have been in the trash longer than the purge delay
+   */
+  async purgeExpiredTrash(): Promise<void> {
+    const cutoff =
+      Math.floor(Date.now() / 1000) - (appConfig.get("trashPurgeDelay") ?? 0);
+    const expired = this.db
+      .query<
+        { hash: string },
+        { cutoff: number }
+      >("SELECT hash FROM trash WHERE deleted_at <= $cutoff")
+      .all({ cutoff });
+
+    for (const { hash } of expired) await this.purgeFromTrash(hash);
+  }
+
+  /**
+   * Find the blobs expired by the retention policy, for each pubkey that owns them
+   * Newer blobs are kept first when limiting the number and size of a pubkey's blobs
+   */
+  findExpiredBlobs(now = Math.floor(Date.now() / 1000)): ExpiredBlob[] {
+    const policy = appConfig.get("retention");
+    const pubkeys = this.db
+      .query<{ pubkey: string }, []>("SELECT DISTINCT pubkey FROM blob_owners")
+      .all()
+      .map((row) => row.pubkey);
+
+    const expired: ExpiredBlob[] = [];
+    for (const pubkey of pubkeys) {
+      const anonymous = !appConfig.hasWhitelistEntry(pubkey);
+      let keptBlobs = 0;
+      let keptBytes = 0;
+
+      for (const blob of this.getBlobsByPubkey(pubkey)) {
+        const age = now - blob.uploaded;
+        let reason: RetentionReason | undefined;
+        if (policy.maxAge && age > policy.maxAge) reason = "maxAge";
+        else if (
+          anonymous &&
+          policy.anonymousMaxAge &&
+          age > policy.anonymousMaxAge
+        )
+          reason = "anonymousMaxAge";
+        else if (policy.keepLast && keptBlobs >= policy.keepLast)
+          reason = "keepLast";
+        else if (policy.maxBytes && keptBytes + blob.size > policy.maxBytes)
+          reason = "maxBytes";
+
+        if (reason) {
+          expired.push({
+            hash: blob.hash,
+            pubkey,
+            size: blob.size,
+            uploaded: blob.uploaded,
+            reason,
+          });
+        } else {
+          keptBlobs++;
+          keptBytes += blob.size;
         }
       }
     }
 
-    return false; // Blob not found
+    return expired;
   }
 
   /**
-   * List blobs uploaded by a specific pubkey
+   * Remove the ownership of blobs expired by the retention policy, if it is enabled
+   * Returns the expired blobs
    */
-  getBlobsByPubkey(pubkey: string): Array<{
-    relativePath: string;
-    hash: string;
-    size: number;
-    mtime: number;
-  }> {
-    const uploadsPrefix = join(BLOSSOM_UPLOADS_FOLDER, pubkey);
-    const results: Array<{
-      relativePath: string;
-      hash: string;
-      size: number;
-      mtime: number;
-    }> = [];
-
-    for (const [relativePath, cacheEntry] of Object.entries(this.cache)) {
-      if (relativePath.startsWith(uploadsPrefix)) {
-        results.push({
-          relativePath,
-          hash: cacheEntry.hash,
-          size: cacheEntry.size,
-          mtime: cacheEntry.mtime,
-        });
+  async applyRetention(): Promise<ExpiredBlob[]> {
+    if (!appConfig.get("retention").enabled) return [];
+
+    const expired = this.findExpiredBlobs();
+    for (const blob of expired) {
+      try {
+        await this.deleteBlobForPubkey(blob.hash, blob.pubkey, "retention");
+      } catch (error) {
+        console.error(`Error expiring blob ${blob.hash}:`, error);
+      }
+    }
+
+    if (expired.length > 0)
+      console.info(`Retention policy expired ${expired.length} blobs`);
+    return expired;
+  }
+
+  /**
+   * Re-hash the files that haven't been verified within the scrub interval, if scrubbing is enabled
+   * Each run checks enough files to verify every file once per interval
+   */
+  async scrub(): Promise<void> {
+    const settings = appConfig.get("scrub");
+    if (!settings.enabled) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    const batchSize = Math.ceil(
+      (this.cache.size * RETENTION_INTERVAL * 60) / settings.interval,
+    );
+    const files = this.db
+      .query<FileRow, { cutoff: number; limit: number }>(
+        `SELECT path, hash, size, mtime, uploader FROM files
+         WHERE verified_at <= $cutoff ORDER BY verified_at LIMIT $limit`,
+      )
+      .all({ cutoff: now - settings.interval, limit: batchSize });
+
+    let corruptCount = 0;
+    for (const file of files) {
+      const filePath = join(this.blobDir, file.path);
+      if (!existsSync(filePath)) continue;
+
+      try {
+        // Files changed since they were indexed were edited, they are indexed again instead
+        if (await this.isChangedSinceIndexed(filePath, file)) {
+          await this.processFile(filePath);
+          continue;
+        }
+
+        const hash = await this.calculateFileHash(filePath);
+        if (hash === file.hash) {
+          this.db
+            .query("UPDATE files SET verified_at = $now WHERE path = $path")
+            .run({ now, path: file.path });
+        } else if (await this.isChangedSinceIndexed(filePath, file)) {
+          await this.processFile(filePath);
+        } else {
+          await this.flagCorruptFile(file, hash, settings.quarantine);
+          corruptCount++;
+        }
+      } catch (error) {
+        console.error(`Error verifying file ${file.path}:`, error);
       }
     }
 
-    return results.sort((a, b) => b.mtime - a.mtime); // Most recent first
+    this.db
+      .query(
+        `INSERT INTO scrub_runs (finished_at, checked, corrupt)
+         VALUES ($finishedAt, $checked, $corrupt)`,
+      )
+      .run({
+        finishedAt: Math.floor(Date.now() / 1000),
+        checked: files.length,
+        corrupt: corruptCount,
+      });
+    this.db.exec(
+      "DELETE FROM scrub_runs WHERE rowid < (SELECT MAX(rowid) FROM scrub_runs)",
+    );
+
+    if (files.length > 0)
+      console.info(
+        `Scrub checked ${files.length} files, ${corruptCount} corrupt`,
+      );
+  }
+
+  /**
+   * Check if the modification time or size of a file differ from its index entry
+   * Only files that are unchanged but don't match their hash are corrupt
+   */
+  private async isChangedSinceIndexed(
+    filePath: string,
+    entry: { mtime: number; size: number },
+  ): Promise<boolean> {
+    const stats = await this.getFileStats(filePath);
+    return stats.mtime !== entry.mtime || stats.size !== entry.size;
+  }
+
+  /**
+   * Record a file whose content doesn't match its hash and stop serving it under that hash
+   * The file is moved to the quarantine folder, or indexed with the hash of its actual content
+   */
+  private async flagCorruptFile(
+    file: FileRow,
+    actualHash: string,
+    quarantine: boolean,
+  ): Promise<void> {
+    console.error(
+      `Corrupt file ${file.path}: expected ${file.hash}, got ${actualHash}`,
+    );
+
+    const filePath = join(this.blobDir, file.path);
+    const stats = await this.getFileStats(filePath);
+
+    // A hardlink to the blob store means the stored blob is corrupt as well
+    const storePath = this.backend.getLocalPath?.(file.hash);
+    if (
+      storePath &&
+      existsSync(storePath) &&
+      (await this.getFileStats(storePath)).inode === stats.inode
+    )
+      await this.removeFromStore(file.hash);
+
+    let path = file.path;
+    if (quarantine) {
+      path = join(QUARANTINE_FOLDER, file.path);
+      await mkdir(dirname(join(this.blobDir, path)), { recursive: true });
+      await rename(filePath, join(this.blobDir, path));
+      this.removeEntry(file.path);
+    } else {
+      this.setEntry(
+        file.path,
+        {
+          hash: actualHash,
+          mtime: stats.mtime,
+          size: stats.size,
+          uploader: file.uploader ?? undefined,
+        },
+        true,
+      );
+    }
+
+    this.db
+      .query(
+        `INSERT OR REPLACE INTO corrupt_files
+           (path, expected_hash, actual_hash, quarantined, detected_at)
+         VALUES ($path, $expectedHash, $actualHash, $quarantined, $detectedAt)`,
+      )
+      .run({
+        path,
+        expectedHash: file.hash,
+        actualHash,
+        quarantined: quarantine ? 1 : 0,
+        detectedAt: Math.floor(Date.now() / 1000),
+      });
+  }
+
+  /**
+   * Get the results of the scrub job and the corrupt files it found
+   */
+  getScrubStatus(): ScrubStatus {
+    const lastRun = this.db
+      .query<
+        ScrubRunRow,
+        []
+      >("SELECT * FROM scrub_runs ORDER BY rowid DESC LIMIT 1")
+      .get();
+    const cutoff =
+      Math.floor(Date.now() / 1000) - appConfig.get("scrub").interval;
+    const { verified } = this.db
+      .query<
+        { verified: number },
+        { cutoff: number }
+      >("SELECT COUNT(*) AS verified FROM files WHERE verified_at > $cutoff")
+      .get({ cutoff })!;
+
+    return {
+      lastRun: lastRun?.finished_at,
+      checked: lastRun?.checked ?? 0,
+      verified,
+      total: this.cache.size,
+      corruptFiles: this.db
+        .query<CorruptFileRow, []>(
+          "SELECT * FROM corrupt_files ORDER BY detected_at DESC",
+        )
+        .all()
+        .map((row) => ({
+          path: row.path,
+          expectedHash: row.expected_hash,
+          actualHash: row.actual_hash,
+          quarantined: row.quarantined === 1,
+          detectedAt: row.detected_at,
+        })),
+    };
+  }
+
+  /**
+   * Remove a corrupt file from the list of flagged files
+   * Returns false if the file wasn't flagged
+   */
+  dismissCorruptFile(path: string): boolean {
+    const { changes } = this.db
+      .query("DELETE FROM corrupt_files WHERE path = $path")
+      .run({ path });
+    return changes > 0;
+  }
+
+  /**
+   * Get the pubkeys that own a blob
+   */
+  getUploadersForHash(hash: string): string[] {
+    return this.db
+      .query<{ pubkey: string }, { hash: string }>(
+        "SELECT pubkey FROM blob_owners WHERE hash = $hash",
+      )
+      .all({ hash })
+      .map((row) => row.pubkey);
+  }
+
+  /**
+   * Get the total size and number of blobs uploaded by a pubkey
+   */
+  getUsageForPubkey(pubkey: string): StorageUsage {
+    const blobs = this.getBlobsByPubkey(pubkey);
+    return {
+      bytes: blobs.reduce((total, blob) => total + blob.size, 0),
+      blobs: blobs.length,
+    };
+  }
+
+  /**
+   * List blobs owned by a specific pubkey that are still stored
+   */
+  getBlobsByPubkey(pubkey: string): OwnedBlob[] {
+    return this.db
+      .query<OwnedBlobRow, { pubkey: string }>(
+        `SELECT o.hash, MIN(f.path) AS path, COALESCE(s.size, f.size) AS size,
+           s.type, o.created_at
+         FROM blob_owners o
+         LEFT JOIN stored_blobs s ON s.hash = o.hash
+         LEFT JOIN files f ON f.hash = o.hash
+         WHERE o.pubkey = $pubkey AND (s.hash IS NOT NULL OR f.hash IS NOT NULL)
+         GROUP BY o.hash ORDER BY o.created_at DESC`,
+      )
+      .all({ pubkey })
+      .map((row) => ({
+        relativePath: row.path ?? undefined,
+        hash: row.hash,
+        size: row.size,
+        type: row.type ?? undefined,
+        uploaded: row.created_at,
+      })); // Most recent first
   }
 }
 
 // Export a singleton instance
-const blobStorage = new StorageService(BLOB_DIR, CONFIG_DIR);
+const blobStorage = new StorageService(
+  BLOB_DIR,
+  database,
+  CONFIG_DIR,
+  createBlobBackend(BLOB_DIR),
+  SCAN_CONCURRENCY,
+);
 
 export default blobStorage;
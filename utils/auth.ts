@@ -1,10 +1,21 @@
 /**
- * HTTP Basic Authentication utility functions for consistent auth handling across all endpoints
+ * Authentication utility functions for consistent auth handling across all endpoints
+ * Supports HTTP Basic auth and admin sessions started with a Nostr login
  */
 
 import type { BodyInit } from "bun";
+import { nip19 } from "nostr-tools";
 import { addCorsHeaders } from "./cors.ts";
-import { APP_PASSWORD, APP_USERNAME } from "../env";
+import { isValidPubkey } from "./nostr.ts";
+import { APP_OWNER, APP_PASSWORD, APP_USERNAME } from "../env";
+import appConfig from "../services/config.ts";
+import adminSessions, {
+  SESSION_TTL,
+  type AdminSession,
+} from "../services/sessions.ts";
+
+/** Name of the cookie holding the admin session token */
+export const SESSION_COOKIE = "blobbox_session";
 
 /**
  * Authentication configuration
@@ -153,17 +164,145 @@ export function withAuth<T extends any[]>(
 }
 
 /**
- * Simple auth middleware with environment variable support
- * Uses APP_PASSWORD from environment with configurable username
+ * Get the first value of a comma separated forwarding header
+ */
+function getForwardedHeader(req: Request, name: string): string | undefined {
+  return req.headers.get(name)?.split(",")[0]?.trim() || undefined;
+}
+
+/**
+ * Get the URL of a request as the client sees it when behind a proxy
+ * Malformed forwarding headers are ignored
+ */
+export function getClientUrl(req: Request): URL {
+  const url = new URL(req.url);
+  const host =
+    getForwardedHeader(req, "X-Forwarded-Host") ?? req.headers.get("Host");
+  if (!host) return url;
+
+  const forwardedProto = getForwardedHeader(req, "X-Forwarded-Proto");
+  const protocol =
+    forwardedProto === "http" || forwardedProto === "https"
+      ? forwardedProto
+      : url.protocol.replace(/:$/, "");
+
+  try {
+    return new URL(url.pathname + url.search, `${protocol}://${host}`);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Decode the owner pubkey from APP_OWNER (npub or hex)
+ */
+function parseOwnerPubkey(value?: string): string | undefined {
+  if (!value) return undefined;
+  if (isValidPubkey(value)) return value.toLowerCase();
+
+  try {
+    const decoded = nip19.decode(value);
+    if (decoded.type === "npub") return decoded.data;
+  } catch {}
+
+  console.error(`Ignoring invalid APP_OWNER: ${value}`);
+  return undefined;
+}
+
+const OWNER_PUBKEY = parseOwnerPubkey(APP_OWNER);
+
+/**
+ * Check if a pubkey is allowed to use the admin dashboard
+ */
+export function isAdminPubkey(pubkey: string): boolean {
+  if (pubkey === OWNER_PUBKEY) return true;
+  return appConfig.getRole(pubkey) === "admin";
+}
+
+/**
+ * Check if there is any way to sign in to the admin dashboard
  */
-export function withSimpleAuth() {
-  const password = APP_PASSWORD;
-  const username = APP_USERNAME;
+export function hasAdminLogin(): boolean {
+  return (
+    !!APP_PASSWORD ||
+    !!OWNER_PUBKEY ||
+    appConfig.getConfig().whitelist.some((entry) => entry.role === "admin")
+  );
+}
+
+/**
+ * Get the admin session of a request if it is still valid
+ */
+export function getAdminSession(
+  req: Request,
+): (AdminSession & { token: string }) | null {
+  const cookies = new Bun.CookieMap(req.headers.get("Cookie") ?? "");
+  const token = cookies.get(SESSION_COOKIE);
+  if (!token) return null;
+
+  const session = adminSessions.get(token);
+  if (!session) return null;
+
+  // Access is checked on every request so removing an admin ends their sessions
+  if (session.pubkey ? !isAdminPubkey(session.pubkey) : !APP_PASSWORD)
+    return null;
+
+  return { ...session, token };
+}
+
+/**
+ * Create the Set-Cookie header value for a new admin session
+ */
+export function createSessionCookie(req: Request, token: string): string {
+  const secure =
+    new URL(req.url).protocol === "https:" ||
+    req.headers.get("X-Forwarded-Proto") === "https";
 
-  // Do nothing if no password is set
-  if (!password) return (handler: (req: Request, ...args: any[]) => Promise<Response> | Response) => handler;
+  return new Bun.Cookie(SESSION_COOKIE, token, {
+    path: "/",
+    httpOnly: true,
+    sameSite: "strict",
+    secure,
+    maxAge: SESSION_TTL,
+  }).serialize();
+}
 
-  return withAuth({ username, password }, "Admin dashboard");
+/**
+ * Create the Set-Cookie header value that removes the admin session cookie
+ */
+export function clearSessionCookie(): string {
+  return new Bun.Cookie(SESSION_COOKIE, "", {
+    path: "/",
+    httpOnly: true,
+    sameSite: "strict",
+    maxAge: 0,
+  }).serialize();
+}
+
+/**
+ * Admin dashboard middleware
+ * Accepts a session cookie from the Nostr or password login, or HTTP Basic
+ * credentials, and sends everyone else to the login page. Without a password,
+ * owner or admin pubkey nobody can sign in and the dashboard stays locked
+ */
+export function withAdminAuth() {
+  return (
+      handler: (req: Request, ...args: any[]) => Promise<Response> | Response,
+    ) =>
+    async (req: Request, ...args: any[]): Promise<Response> => {
+      if (getAdminSession(req)) return handler(req, ...args);
+
+      if (
+        APP_PASSWORD &&
+        isAuthenticated(req, { username: APP_USERNAME, password: APP_PASSWORD })
+      )
+        return handler(req, ...args);
+
+      return new Response(null, {
+        status: 302,
+        headers: { Location: "/admin/login" },
+      });
+    };
 }
 
 /**
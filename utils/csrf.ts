@@ -0,0 +1,127 @@
+/**
+ * CSRF protection for the cookie and Basic auth protected HTML forms
+ */
+
+import { timingSafeEqual } from "crypto";
+import { createAuthForbiddenResponse, getClientUrl } from "./auth.ts";
+
+/** Name of the cookie identifying the browser session CSRF tokens are bound to */
+const CSRF_COOKIE = "blobbox_csrf";
+
+/** Name of the hidden form field carrying the CSRF token */
+export const CSRF_FIELD = "_csrf";
+
+/** Key for signing tokens, so tokens can't be forged by setting the cookie */
+const CSRF_SECRET = crypto.getRandomValues(new Uint8Array(32));
+
+/**
+ * Create the CSRF token for a browser session id
+ */
+function signSessionId(sessionId: string): string {
+  return new Bun.CryptoHasher("sha256", CSRF_SECRET)
+    .update(sessionId)
+    .digest("base64url");
+}
+
+/**
+ * Get the CSRF session id from the request cookies
+ */
+function getSessionId(req: Request): string | undefined {
+  return (
+    new Bun.CookieMap(req.headers.get("Cookie") ?? "").get(CSRF_COOKIE) ??
+    undefined
+  );
+}
+
+/**
+ * Get the CSRF token to render into the forms of a page
+ * Returns a Set-Cookie header value when the browser didn't have a session yet
+ */
+export function getCsrfToken(req: Request): { token: string; cookie?: string } {
+  const existing = getSessionId(req);
+  if (existing) return { token: signSessionId(existing) };
+
+  const sessionId = Buffer.from(
+    crypto.getRandomValues(new Uint8Array(32)),
+  ).toString("base64url");
+  const cookie = new Bun.Cookie(CSRF_COOKIE, sessionId, {
+    path: "/",
+    httpOnly: true,
+    sameSite: "strict",
+  }).serialize();
+
+  return { token: signSessionId(sessionId), cookie };
+}
+
+/**
+ * Check that a CSRF token belongs to the browser session of a request
+ */
+export function isValidCsrfToken(req: Request, token: unknown): boolean {
+  const sessionId = getSessionId(req);
+  if (!sessionId || typeof token !== "string") return false;
+
+  const expected = Buffer.from(signSessionId(sessionId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Check that the Origin or Referer of a request matches the server
+ * Requests without either header are allowed since they can't come from another site's page
+ */
+export function isSameOrigin(req: Request): boolean {
+  const source = req.headers.get("Origin") ?? req.headers.get("Referer");
+  if (!source) return true;
+
+  try {
+    return new URL(source).host === getClientUrl(req).host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Middleware rejecting cross-site requests by their Origin/Referer headers
+ */
+export function withSameOrigin() {
+  return (
+      handler: (req: Request, ...args: any[]) => Promise<Response> | Response,
+    ) =>
+    async (req: Request, ...args: any[]): Promise<Response> => {
+      if (!isSameOrigin(req))
+        return createAuthForbiddenResponse("Cross-site request blocked");
+
+      return handler(req, ...args);
+    };
+}
+
+/**
+ * Middleware for form submissions, checking the Origin/Referer headers and
+ * the CSRF token in the form data
+ */
+export function withCsrf() {
+  return (
+      handler: (req: Request, ...args: any[]) => Promise<Response> | Response,
+    ) =>
+    async (req: Request, ...args: any[]): Promise<Response> => {
+      if (!isSameOrigin(req))
+        return createAuthForbiddenResponse("Cross-site request blocked");
+
+      let formData: Awaited<ReturnType<Request["formData"]>>;
+      try {
+        formData = await req.formData();
+      } catch {
+        return createAuthForbiddenResponse("Missing CSRF token");
+      }
+
+      if (!isValidCsrfToken(req, formData.get(CSRF_FIELD)))
+        return createAuthForbiddenResponse(
+          "Invalid CSRF token, reload the page and try again",
+        );
+
+      // The body can only be read once, so hand the parsed form to the handler
+      Object.defineProperty(req, "formData", { value: async () => formData });
+
+      return handler(req, ...args);
+    };
+}
@@ -36,12 +36,16 @@ export async function getDirectoryContents(
   }
 
   const entries = await readdir(fullPath, { withFileTypes: true });
-  const allHashes = blobStorage.getAllHashes();
   const fileEntries: FileEntry[] = [];
 
   for (const entry of entries) {
     const entryPath = join(fullPath, entry.name);
     const entryRelativePath = relative(blobDir, entryPath);
+    if (
+      blobStorage.isInternalPath(entryRelativePath) ||
+      blobStorage.isIgnoredPath(entryRelativePath, entry.isDirectory())
+    )
+      continue;
 
     if (entry.isDirectory()) {
       fileEntries.push({
@@ -49,7 +53,7 @@ export async function getDirectoryContents(
         isDirectory: true,
       });
     } else if (entry.isFile()) {
-      const cacheEntry = allHashes[entryRelativePath];
+      const cacheEntry = blobStorage.getFileEntry(entryRelativePath);
       if (cacheEntry) {
         fileEntries.push({
           name: entry.name,
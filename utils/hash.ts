@@ -0,0 +1,142 @@
+/**
+ * File hashing utilities that keep memory usage bounded for large files
+ */
+
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+
+/** Size of the chunks read from disk while hashing */
+export const HASH_CHUNK_SIZE = 1024 * 1024; // 1MB
+
+/**
+ * Calculate the SHA256 hash of a file by streaming it in fixed-size chunks
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hasher = createHash("sha256");
+  const stream = createReadStream(filePath, { highWaterMark: HASH_CHUNK_SIZE });
+
+  for await (const chunk of stream) hasher.update(chunk);
+
+  return hasher.digest("hex");
+}
+
+type HashJob = {
+  path: string;
+  resolve: (hash: string) => void;
+  reject: (error: Error) => void;
+};
+
+type HashResult = { id: number; hash?: string; error?: string };
+
+/**
+ * Pool of worker threads that hash files in parallel
+ * At most `size` files are hashed at once, the rest are queued
+ */
+export class HashPool {
+  private size: number;
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private queue: HashJob[] = [];
+  private running = new Map<number, HashJob>();
+  /** Id of the job each busy worker is running */
+  private assigned = new Map<Worker, number>();
+  private nextId = 0;
+
+  constructor(size: number) {
+    this.size = Math.max(1, size);
+  }
+
+  /**
+   * Hash a file on the next available worker
+   */
+  hash(path: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ path, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers and reject any queued jobs
+   */
+  terminate(): void {
+    for (const worker of this.workers) worker.terminate();
+    for (const job of [...this.queue, ...this.running.values()])
+      job.reject(new Error("Hash pool terminated"));
+
+    this.workers = [];
+    this.idle = [];
+    this.queue = [];
+    this.running.clear();
+    this.assigned.clear();
+  }
+
+  /**
+   * Start queued jobs on idle workers, spawning new workers up to the pool size
+   */
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker =
+        this.idle.pop() ??
+        (this.workers.length < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+
+      const job = this.queue.shift()!;
+      const id = this.nextId++;
+      this.running.set(id, job);
+      this.assigned.set(worker, id);
+      worker.postMessage({ id, path: job.path });
+    }
+  }
+
+  /**
+   * Create a new worker thread
+   */
+  private spawn(): Worker {
+    const worker = new Worker(new URL("./hashWorker.ts", import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<HashResult>) => {
+      const { id, hash, error } = event.data;
+      const job = this.running.get(id);
+      this.running.delete(id);
+      this.assigned.delete(worker);
+
+      if (job) {
+        if (hash) job.resolve(hash);
+        else job.reject(new Error(error ?? "Unknown hashing error"));
+      }
+
+      this.idle.push(worker);
+      this.dispatch();
+    };
+    worker.onerror = (event: ErrorEvent) =>
+      this.replace(worker, new Error(event.message || "Hash worker crashed"));
+    worker.onmessageerror = () =>
+      this.replace(worker, new Error("Invalid message from hash worker"));
+    worker.addEventListener("close", () =>
+      this.replace(worker, new Error("Hash worker exited")),
+    );
+
+    this.workers.push(worker);
+    return worker;
+  }
+
+  /**
+   * Reject the job of a failed worker and replace the worker, so the queue keeps moving
+   */
+  private replace(worker: Worker, error: Error): void {
+    if (!this.workers.includes(worker)) return;
+
+    const id = this.assigned.get(worker);
+    this.assigned.delete(worker);
+    if (id !== undefined) {
+      this.running.get(id)?.reject(error);
+      this.running.delete(id);
+    }
+
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.idle = this.idle.filter((w) => w !== worker);
+    worker.terminate();
+    this.dispatch();
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Worker thread entry point for the HashPool
+ */
+
+import { hashFile } from "./hash.ts";
+
+declare var self: Worker;
+
+self.onmessage = async (event: MessageEvent<{ id: number; path: string }>) => {
+  const { id, path } = event.data;
+
+  try {
+    postMessage({ id, hash: await hashFile(path) });
+  } catch (error) {
+    postMessage({
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * Gitignore-style patterns for excluding files in the blob directory
+ */
+
+import { sep } from "path";
+
+export interface IgnoreRule {
+  glob: Bun.Glob;
+  /** Re-includes paths excluded by an earlier rule */
+  negate: boolean;
+  /** Only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Compile gitignore-style patterns, skipping blank lines and comments
+ * Patterns without a slash match at any depth, others are relative to the blob directory
+ */
+export function compileIgnorePatterns(patterns: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of patterns) {
+    let pattern = line.trim();
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negate = pattern.startsWith("!");
+    if (negate) pattern = pattern.slice(1);
+    else if (pattern.startsWith("\\#") || pattern.startsWith("\\!"))
+      pattern = pattern.slice(1);
+
+    const directoryOnly = pattern.endsWith("/");
+    pattern = pattern.replace(/\/+$/, "");
+    if (!pattern) continue;
+
+    pattern = pattern.includes("/")
+      ? pattern.replace(/^\/+/, "")
+      : `**/${pattern}`;
+
+    rules.push({ glob: new Bun.Glob(pattern), negate, directoryOnly });
+  }
+
+  return rules;
+}
+
+/**
+ * Check if a path relative to the blob directory is excluded by the rules
+ * Like git, files inside an excluded directory can't be re-included
+ */
+export function isIgnored(
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean,
+): boolean {
+  if (rules.length === 0) return false;
+
+  const parts = relativePath.split(sep).filter(Boolean);
+  for (let i = 1; i <= parts.length; i++) {
+    const path = parts.slice(0, i).join("/");
+    const directory = i < parts.length || isDirectory;
+
+    // The last matching rule decides
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.negate !== ignored) continue;
+      if (rule.directoryOnly && !directory) continue;
+      if (rule.glob.match(path)) ignored = !rule.negate;
+    }
+
+    if (ignored) return true;
+  }
+
+  return false;
+}
@@ -0,0 +1,81 @@
+/**
+ * Image inspection utilities for NIP-94 file metadata
+ */
+
+import { encode } from "blurhash";
+import mime from "mime";
+import sharp from "sharp";
+
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  blurhash?: string;
+}
+
+/** Size of the downscaled image the blurhash is calculated from */
+const BLURHASH_SAMPLE_SIZE = 32;
+
+/** Longest side (in pixels) of generated thumbnails */
+export const THUMBNAIL_SIZE = 320;
+
+/**
+ * Check if a file is an image based on its name
+ */
+export function isImageFile(filePath: string): boolean {
+  return mime.getType(filePath)?.startsWith("image/") ?? false;
+}
+
+/**
+ * Read the dimensions of an image and calculate its blurhash
+ * Returns null if the file can't be decoded as an image
+ */
+export async function getImageMetadata(
+  filePath: string,
+): Promise<ImageMetadata | null> {
+  try {
+    const metadata = await sharp(filePath).metadata();
+    const { width, height } = metadata.autoOrient;
+
+    const { data, info } = await sharp(filePath)
+      .rotate()
+      .resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    const blurhash = encode(
+      new Uint8ClampedArray(data),
+      info.width,
+      info.height,
+      4,
+      3,
+    );
+
+    return { width, height, blurhash };
+  } catch (error) {
+    console.error(`Error reading image metadata for ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Render a WebP thumbnail that fits within THUMBNAIL_SIZE
+ * Returns null if the file can't be decoded as an image
+ */
+export async function renderThumbnail(
+  filePath: string,
+): Promise<Buffer | null> {
+  try {
+    return await sharp(filePath)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: "inside",
+        withoutEnlargement: true,
+      })
+      .webp()
+      .toBuffer();
+  } catch (error) {
+    console.error(`Error rendering thumbnail for ${filePath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Streaming parser for multipart/form-data request bodies
+ */
+
+export interface MultipartPart {
+  /** Name of the form field */
+  name: string;
+  /** File name, only set for file fields */
+  filename?: string;
+  /** Content type of a file */
+  type?: string;
+  /** Content of the part, only readable until the next part is requested */
+  body: ReadableStream<Uint8Array>;
+}
+
+/** Maximum size of the headers of a single part */
+const MAX_HEADER_SIZE = 16 * 1024;
+
+/** Maximum size of a form field that isn't a file */
+const MAX_FIELD_SIZE = 64 * 1024;
+
+/**
+ * Get the boundary from a multipart/form-data Content-Type header
+ */
+function getBoundary(contentType: string | null): string | null {
+  const match = contentType?.match(
+    /^multipart\/form-data;.*\bboundary=(?:"([^"]+)"|([^;\s]+))/i,
+  );
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+/**
+ * Parse the Content-Disposition and Content-Type headers of a part
+ */
+function parsePartHeaders(headers: string): Omit<MultipartPart, "body"> | null {
+  let disposition = "";
+  let type: string | undefined;
+
+  for (const line of headers.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (name === "content-disposition") disposition = value;
+    else if (name === "content-type") type = value;
+  }
+
+  const params = new Map<string, string>();
+  for (const match of disposition.matchAll(
+    /;\s*([\w*-]+)=(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g,
+  ))
+    params.set(
+      match[1]!.toLowerCase(),
+      match[2]?.replace(/\\(.)/g, "$1") ?? match[3]!.trim(),
+    );
+
+  const name = params.get("name");
+  if (name === undefined) return null;
+
+  return { name, filename: params.get("filename"), type };
+}
+
+/**
+ * Read the parts of a multipart/form-data request one at a time without buffering the body
+ * The body of a part that isn't read is skipped when the next part is requested
+ */
+export async function* parseMultipart(
+  req: Request,
+): AsyncGenerator<MultipartPart> {
+  const boundary = getBoundary(req.headers.get("Content-Type"));
+  if (!boundary || !req.body) throw new Error("Invalid multipart form data");
+
+  const reader = req.body.getReader();
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  // The first delimiter isn't preceded by a line break, prepend one so they all look the same
+  let buffer = Buffer.from("\r\n");
+  let ended = false;
+
+  const fill = async (): Promise<void> => {
+    const { done, value } = ended ? { done: true } : await reader.read();
+    if (done || !value) {
+      ended = true;
+      throw new Error("Unexpected end of multipart form data");
+    }
+    buffer = Buffer.concat([buffer, value]);
+  };
+
+  // Read the next chunk of the current part, or null once its delimiter is reached
+  const readChunk = async (): Promise<Buffer | null> => {
+    while (true) {
+      const index = buffer.indexOf(delimiter);
+      if (index !== -1) {
+        const chunk = buffer.subarray(0, index);
+        buffer = buffer.subarray(index);
+        return chunk.length > 0 ? chunk : null;
+      }
+
+      // Hold back enough bytes to find a delimiter split across reads
+      const available = buffer.length - delimiter.length + 1;
+      if (available > 0) {
+        const chunk = buffer.subarray(0, available);
+        buffer = buffer.subarray(available);
+        return chunk;
+      }
+
+      await fill();
+    }
+  };
+
+  // Skip the preamble
+  while ((await readChunk()) !== null);
+
+  while (true) {
+    while (buffer.length < delimiter.length + 2) await fill();
+
+    const suffix = buffer
+      .subarray(delimiter.length, delimiter.length + 2)
+      .toString();
+    if (suffix === "--") return;
+    if (suffix !== "\r\n") throw new Error("Invalid multipart form data");
+    buffer = buffer.subarray(delimiter.length + 2);
+
+    let headerEnd: number;
+    while ((headerEnd = buffer.indexOf("\r\n\r\n")) === -1) {
+      if (buffer.length > MAX_HEADER_SIZE)
+        throw new Error("Invalid multipart form data");
+      await fill();
+    }
+
+    const headers = parsePartHeaders(buffer.subarray(0, headerEnd).toString());
+    if (!headers) throw new Error("Invalid multipart form data");
+    buffer = buffer.subarray(headerEnd + 4);
+
+    let finished = false;
+    const body = new ReadableStream<Uint8Array>(
+      {
+        async pull(controller) {
+          const chunk = await readChunk();
+          if (chunk) {
+            controller.enqueue(chunk);
+          } else {
+            finished = true;
+            controller.close();
+          }
+        },
+      },
+      { highWaterMark: 0 },
+    );
+
+    yield { ...headers, body };
+
+    // Skip whatever the consumer didn't read
+    while (!finished && (await readChunk()) !== null);
+  }
+}
+
+/**
+ * Read a form field that isn't a file as text
+ */
+export async function readMultipartField(
+  body: ReadableStream<Uint8Array>,
+): Promise<string> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for await (const chunk of body) {
+    size += chunk.byteLength;
+    if (size > MAX_FIELD_SIZE) throw new Error("Form field too large");
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks).toString();
+}
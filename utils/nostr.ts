@@ -13,7 +13,7 @@ export type NostrEvent = Event;
 /**
  * Blossom authorization event types
  */
-export type BlossomAuthType = "upload" | "list" | "delete";
+export type BlossomAuthType = "upload" | "list" | "delete" | "media" | "get";
 
 /**
  * Verify a Nostr event signature and ID
@@ -52,7 +52,10 @@ export function isValidBlossomAuth(
   }
 
   // For upload and delete, check if it has the required 'x' tags with expected hashes
-  if ((authType === "upload" || authType === "delete") && expectedHashes) {
+  if (
+    (authType === "upload" || authType === "delete" || authType === "media") &&
+    expectedHashes
+  ) {
     const xTags = event.tags.filter((tag) => tag[0] === "x");
     if (xTags.length === 0) {
       return false;
@@ -70,6 +73,19 @@ export function isValidBlossomAuth(
     }
   }
 
+  // For get, 'x' tags are optional but must include the blob when present
+  if (authType === "get" && expectedHashes) {
+    const xTagValues = event.tags
+      .filter((tag) => tag[0] === "x")
+      .map((tag) => tag[1]);
+    if (
+      xTagValues.length > 0 &&
+      !expectedHashes.some((hash) => xTagValues.includes(hash))
+    ) {
+      return false;
+    }
+  }
+
   // Check expiration if present
   const expirationTag = event.tags.find((tag) => tag[0] === "expiration");
   if (expirationTag && expirationTag[1]) {
@@ -82,6 +98,40 @@ export function isValidBlossomAuth(
   return true;
 }
 
+/** Maximum age (in seconds) of a NIP-98 HTTP auth event */
+const HTTP_AUTH_MAX_AGE = 60;
+
+/**
+ * Check if an event is a valid NIP-98 HTTP auth event for a request
+ * The URL scheme is not compared since TLS is often terminated by a proxy
+ */
+export function isValidHttpAuth(
+  event: NostrEvent,
+  url: URL,
+  method: string,
+): boolean {
+  if (event.kind !== 27235) return false;
+
+  // Only accept recently created events to limit replays
+  if (Math.abs(Date.now() / 1000 - event.created_at) > HTTP_AUTH_MAX_AGE)
+    return false;
+
+  const methodTag = event.tags.find((tag) => tag[0] === "method");
+  if (methodTag?.[1]?.toUpperCase() !== method.toUpperCase()) return false;
+
+  const urlTag = event.tags.find((tag) => tag[0] === "u");
+  try {
+    const signedUrl = new URL(urlTag?.[1] ?? "");
+    return (
+      signedUrl.host === url.host &&
+      signedUrl.pathname === url.pathname &&
+      signedUrl.search === url.search
+    );
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Parse authorization header and extract Nostr event
  */